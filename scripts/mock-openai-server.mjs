@@ -0,0 +1,124 @@
+// Minimal stand-in for the OpenAI endpoints the app uses, for trying out transcription flows
+// (e.g. live transcription) without an API key or network access.
+//
+//   node scripts/mock-openai-server.mjs [port]
+//   VITE_OPENAI_BASE_URL=http://localhost:8787/v1 npm run dev
+
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const latencyMs = Number(process.env.MOCK_LATENCY_MS ?? 800);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  // The dev server sets COEP, so cross-origin responses must opt in
+  'Cross-Origin-Resource-Policy': 'cross-origin',
+};
+
+// WAV uploads carry their own length, which lets the mock return plausible timings
+const wavDuration = (body) => {
+  if (body.length < 44) return null;
+  const riff = body.indexOf('RIFF');
+  if (riff === -1) return null;
+  const byteRate = body.readUInt32LE(riff + 28);
+  const dataSize = body.readUInt32LE(riff + 40);
+  return byteRate > 0 ? dataSize / byteRate : null;
+};
+
+let requestCount = 0;
+
+const transcription = (body) => {
+  requestCount += 1;
+  const duration = wavDuration(body) ?? 10;
+  const diarize = body.includes('diarized_json');
+  const segmentLength = 5;
+  const segments = [];
+  for (let start = 0; start < duration; start += segmentLength) {
+    const end = Math.min(duration, start + segmentLength);
+    const text = ` Mock request ${requestCount} from ${start.toFixed(1)} to ${end.toFixed(1)} seconds.`;
+    segments.push({ id: segments.length, start, end, text, avg_logprob: -0.2, ...(diarize && { speaker: segments.length % 2 ? 'B' : 'A' }) });
+  }
+
+  return {
+    text: segments.map(segment => segment.text).join('').trim(),
+    language: 'english',
+    duration,
+    segments,
+    words: [],
+  };
+};
+
+const completion = (content) => ({ choices: [{ message: { content: JSON.stringify(content) } }] });
+
+// Answers in whichever languages the request's response schema asks for, filling in whatever fields it lists
+const summary = (body) => {
+  let responseFormat = {};
+  try {
+    responseFormat = JSON.parse(body.toString()).response_format?.json_schema ?? {};
+  } catch {
+    // not JSON - keep the default
+  }
+  if (responseFormat.name === 'content_classification') {
+    return completion({ labels: [{ contentType: 'meeting', confidence: 0.8 }, { contentType: 'conversation', confidence: 0.3 }] });
+  }
+  const languageSchema = responseFormat.schema?.properties?.languages ?? {};
+  const languages = languageSchema.required ?? ['en'];
+
+  const localized = (code) => {
+    const properties = languageSchema.properties?.[code]?.properties
+      ?? { title: {}, summary: {}, keyPoints: { type: 'array' } };
+    return Object.fromEntries(Object.entries(properties).map(([key, schema]) => [key,
+      key === 'title' ? `Mock recording (${code})`
+        : key === 'summary' ? `This ${code} summary was produced by the local mock server.`
+        : schema.type === 'array' ? [`Mock ${key}`] : '',
+    ]));
+  };
+
+  return completion({
+    languages: Object.fromEntries(languages.map(code => [code, localized(code)])),
+    priority: 'low',
+    actionItems: [{
+      description: Object.fromEntries(languages.map(code => [code, `Follow up on the mock recording (${code})`])),
+      owner: 'Speaker 1',
+      dueDate: '',
+      quote: '',
+    }],
+  });
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks);
+    let payload;
+    if (req.method === 'POST' && req.url === '/v1/audio/transcriptions') {
+      payload = transcription(body);
+    } else if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+      payload = summary(body);
+    }
+
+    setTimeout(() => {
+      if (!payload) {
+        res.writeHead(404, { ...corsHeaders, 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: `No mock for ${req.method} ${req.url}` } }));
+        return;
+      }
+      console.log(`${req.method} ${req.url} (${body.length} bytes)`);
+      res.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    }, latencyMs);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock OpenAI API listening on http://localhost:${port}/v1`);
+});
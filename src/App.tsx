@@ -1,34 +1,24 @@
-import { useCallback, useEffect, useState } from 'react';
-import type { AudioFile, TranscriptionResult as TranscriptionResultType } from './types';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { AudioFile, ContentType, TranscriptionOutput, TranscriptionResult as TranscriptionResultType } from './types';
 import { useTranscription } from './hooks/useTranscription';
 import { useSettings } from './hooks/useSettings';
 import { OfficialLayout } from './components/Layout/OfficialLayout';
 import { AudioUploader } from './components/AudioUploader';
+import { QueuePanel } from './components/Queue';
+import { createTranscriptionProvider } from './services/transcriptionProvider';
+import { createSummaryProvider } from './services/summaryProvider';
 import { ModernTranscriptionResult } from './components/TranscriptionResult/ModernTranscriptionResult';
 import { ModernSettings } from './components/Settings/ModernSettings';
+import { TemplateSelect } from './components/Templates';
+import { OpenActionItems } from './components/ActionItems';
+import { AUTO_TEMPLATE, getTemplateChoice, resolveTemplateChoice } from './utils/summaryTemplates';
+import { collectOpenActionItems } from './utils/actionItems';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { storage } from './utils/storage';
 import './App.css';
 
 function App() {
 
-  const {
-    isLoading,
-    error,
-    results,
-    currentFile,
-    isGeneratingSummary,
-    regeneratingIds,
-    batchProgress,
-    setCurrentFile,
-    transcribeAudio,
-    removeResult,
-    clearResults,
-    clearError,
-    regenerateSummary,
-  } = useTranscription();
-
   const {
     isOpen: isSettingsOpen,
     settings,
@@ -39,34 +29,94 @@ function App() {
     validateApiKey,
   } = useSettings();
 
+  const {
+    error,
+    results,
+    queue,
+    regeneratingIds,
+    regenerationProgress,
+    answeringIds,
+    pendingJobs,
+    enqueueFiles,
+    saveLiveTranscription,
+    cancelJob,
+    retryJob,
+    removeJob,
+    clearFinishedJobs,
+    removeResult,
+    updateResult,
+    clearResults,
+    clearError,
+    regenerateSummary,
+    askQuestion,
+    clearChat,
+    renameSpeaker,
+    setActionItemStatus,
+    resumeJob,
+    discardJob,
+  } = useTranscription({ maxConcurrentJobs: settings.maxConcurrentJobs });
+
+  const transcriptionProvider = useMemo(
+    () => createTranscriptionProvider(settings),
+    [settings]
+  );
+  const summaryProvider = useMemo(
+    () => createSummaryProvider(settings),
+    [settings]
+  );
+
   // State for selected result in the modern UI
   const [selectedResult, setSelectedResult] = useState<TranscriptionResultType | null>(null);
   const [showUploadInterface, setShowUploadInterface] = useState(false);
+  const [showActionItems, setShowActionItems] = useState(false);
   const [transcriptionContext, setTranscriptionContext] = useState('');
+  const [templateChoice, setTemplateChoice] = useState(AUTO_TEMPLATE);
 
-  const handleFileSelect = useCallback((file: AudioFile) => {
-    setCurrentFile(file);
-    setShowUploadInterface(false); // Hide upload interface when file is selected
-  }, [setCurrentFile]);
+  // The template picked for the next recordings, in the shape queued jobs take it
+  const queueTemplates = useMemo(() => {
+    const { template, templates } = resolveTemplateChoice(settings.summaryTemplates, templateChoice);
+    return { summaryTemplate: template, summaryTemplates: templates };
+  }, [settings.summaryTemplates, templateChoice]);
 
-  const handleTranscribe = useCallback(async () => {
-    if (!currentFile || !isSettingsValid) return;
+  const handleFilesSelect = useCallback((files: AudioFile[]) => {
+    if (!isSettingsValid) return;
 
-    try {
-      await transcribeAudio(currentFile.file, settings.apiKey, transcriptionContext.trim() || undefined);
-      
-      // Clean up file URL
-      if (currentFile.url) {
-        URL.revokeObjectURL(currentFile.url);
-      }
-      
-      // Hide upload interface and let auto-selection pick up the new result
-      setShowUploadInterface(false);
-      setTranscriptionContext(''); // Clear context after transcription
-    } catch (err) {
-      console.error('Transcription failed:', err);
-    }
-  }, [currentFile, isSettingsValid, transcribeAudio, settings.apiKey, transcriptionContext]);
+    // The uploader stays open so more files can be added while these run
+    enqueueFiles(files, settings.apiKey, {
+      provider: transcriptionProvider,
+      summaryProvider,
+      summaryLanguages: settings.summaryLanguages,
+      ...queueTemplates,
+      context: transcriptionContext.trim() || undefined,
+      chunkOverlap: settings.chunkOverlap,
+      concurrency: settings.concurrency,
+    });
+    setTranscriptionContext(''); // Clear context once it's attached to the queued files
+  }, [isSettingsValid, enqueueFiles, settings.apiKey, settings.summaryLanguages, settings.chunkOverlap, settings.concurrency, transcriptionProvider, summaryProvider, transcriptionContext, queueTemplates]);
+
+  const handleLiveTranscription = useCallback((file: File, transcription: TranscriptionOutput) => {
+    if (!isSettingsValid) return;
+
+    saveLiveTranscription(file, transcription, settings.apiKey, {
+      context: transcriptionContext.trim() || undefined,
+      summaryProvider,
+      summaryLanguages: settings.summaryLanguages,
+      ...queueTemplates,
+    });
+    setTranscriptionContext('');
+  }, [isSettingsValid, saveLiveTranscription, settings.apiKey, settings.summaryLanguages, summaryProvider, transcriptionContext, queueTemplates]);
+
+  const handleResumeJob = useCallback(async (jobId: string) => {
+    if (!isSettingsValid) return;
+
+    // A job that can't be found any more is reported through the error overlay by the hook
+    await resumeJob(jobId, settings.apiKey, {
+      provider: transcriptionProvider,
+      summaryProvider,
+      summaryLanguages: settings.summaryLanguages,
+      summaryTemplates: settings.summaryTemplates,
+    });
+  }, [resumeJob, isSettingsValid, settings.apiKey, settings.summaryLanguages, settings.summaryTemplates, transcriptionProvider, summaryProvider]);
 
   const handleClearError = useCallback(() => {
     clearError();
@@ -89,29 +139,26 @@ function App() {
     }
 
     try {
-      await regenerateSummary(resultId, settings.apiKey);
+      // Regenerating keeps the template the summary was written with
+      const choice = getTemplateChoice(results.find(result => result.id === resultId)?.summary, settings.summaryTemplates);
+      await regenerateSummary(resultId, summaryProvider, undefined, settings.summaryLanguages, resolveTemplateChoice(settings.summaryTemplates, choice));
     } catch (err) {
       console.error('Summary regeneration failed:', err);
       // Error handling is already done in the hook
     }
-  }, [regenerateSummary, isSettingsValid, settings.apiKey]);
+  }, [regenerateSummary, isSettingsValid, summaryProvider, settings.summaryLanguages, settings.summaryTemplates, results]);
 
   const handleUpdateContext = useCallback((resultId: string, context: string) => {
     // Update the result with new context
-    const updatedResults = results.map(result => 
-      result.id === resultId ? { ...result, context } : result
-    );
-    
-    // Update storage
-    storage.saveResults(updatedResults);
+    updateResult(resultId, { context });
     
     // Update selected result if it's the one being updated
     if (selectedResult && selectedResult.id === resultId) {
       setSelectedResult({ ...selectedResult, context });
     }
-  }, [results, selectedResult]);
+  }, [updateResult, selectedResult]);
 
-  const handleRegenerateWithContext = useCallback(async (resultId: string, context: string) => {
+  const handleRegenerateWithContext = useCallback(async (resultId: string, context: string, choice: string) => {
     if (!isSettingsValid) {
       console.error('Cannot regenerate summary with context: settings not valid');
       return;
@@ -122,35 +169,82 @@ function App() {
       handleUpdateContext(resultId, context);
       
       // Then regenerate the summary with context
-      await regenerateSummary(resultId, settings.apiKey, context);
+      await regenerateSummary(resultId, summaryProvider, context, settings.summaryLanguages, resolveTemplateChoice(settings.summaryTemplates, choice));
     } catch (err) {
       console.error('Summary regeneration with context failed:', err);
       // Error handling is already done in the hook
     }
-  }, [regenerateSummary, isSettingsValid, settings.apiKey, handleUpdateContext]);
+  }, [regenerateSummary, isSettingsValid, summaryProvider, settings.summaryLanguages, settings.summaryTemplates, handleUpdateContext]);
+
+  // A label picked by hand replaces the detected one, and the summary is rewritten for it
+  const handleChangeContentType = useCallback(async (resultId: string, contentType: ContentType) => {
+    const result = results.find(r => r.id === resultId);
+    if (!result || !isSettingsValid) {
+      console.error('Cannot change content type: result not found or settings not valid');
+      return;
+    }
+
+    try {
+      // The template is picked afresh, since templates are chosen by content type
+      await regenerateSummary(resultId, summaryProvider, result.context, settings.summaryLanguages, {
+        ...resolveTemplateChoice(settings.summaryTemplates, AUTO_TEMPLATE),
+        classification: {
+          contentType,
+          confidence: 1,
+          labels: result.classification?.labels ?? [],
+          source: 'user',
+          createdAt: new Date(),
+        },
+      });
+    } catch (err) {
+      console.error('Summary regeneration for the new content type failed:', err);
+      // Error handling is already done in the hook
+    }
+  }, [regenerateSummary, isSettingsValid, summaryProvider, settings.summaryLanguages, settings.summaryTemplates, results]);
+
+  // Questions use the same model as summaries
+  const handleAskQuestion = useCallback(async (resultId: string, question: string) => {
+    await askQuestion(resultId, summaryProvider, question);
+  }, [askQuestion, summaryProvider]);
 
   // Modern UI handlers
   const handleSelectResult = useCallback((result: TranscriptionResultType) => {
     setSelectedResult(result);
-    setCurrentFile(null); // Clear current file when viewing a result
     setShowUploadInterface(false); // Hide upload interface when selecting a result
-  }, [setCurrentFile]);
+    setShowActionItems(false);
+  }, []);
+
+  const handleOpenQueuedResult = useCallback((resultId: string) => {
+    const result = results.find(r => r.id === resultId);
+    if (result) handleSelectResult(result);
+  }, [results, handleSelectResult]);
 
   const handleNewRecording = useCallback(() => {
     setSelectedResult(null);
-    setCurrentFile(null); // Clear any existing file
     setShowUploadInterface(true); // Show upload interface
+    setShowActionItems(false);
     setTranscriptionContext(''); // Clear context for new recording
-  }, [setCurrentFile]);
+  }, []);
+
+  const handleOpenActionItems = useCallback(() => {
+    setSelectedResult(null);
+    setShowUploadInterface(false);
+    setShowActionItems(true);
+  }, []);
 
-  const isTranscribeDisabled = !currentFile || !isSettingsValid || isLoading || isGeneratingSummary;
+  const openActionItemCount = useMemo(() => collectOpenActionItems(results).length, [results]);
 
-  // Auto-select first result if none selected (but not when showing upload interface)
+  // The queue job still summarising the selected result, if any
+  const summarisingJob = selectedResult
+    ? queue.find(job => job.resultId === selectedResult.id && job.status === 'summarising')
+    : undefined;
+
+  // Auto-select first result if none selected (but not when showing upload interface or action items)
   useEffect(() => {
-    if (results.length > 0 && !selectedResult && !currentFile && !showUploadInterface) {
+    if (results.length > 0 && !selectedResult && !showUploadInterface && !showActionItems) {
       setSelectedResult(results[0]);
     }
-  }, [results, selectedResult, currentFile, showUploadInterface]);
+  }, [results, selectedResult, showUploadInterface, showActionItems]);
 
   return (
     <OfficialLayout
@@ -161,9 +255,57 @@ function App() {
       onDeleteResult={handleRemoveResult}
       onClearAllResults={handleClearAllResults}
       onOpenSettings={openSettings}
+      openActionItemCount={openActionItemCount}
+      isActionItemsActive={showActionItems}
+      onOpenActionItems={handleOpenActionItems}
+      queuePanel={
+        <QueuePanel
+          jobs={queue}
+          maxConcurrentJobs={settings.maxConcurrentJobs ?? 2}
+          onCancel={cancelJob}
+          onRetry={retryJob}
+          onRemove={removeJob}
+          onClearFinished={clearFinishedJobs}
+          onOpenResult={handleOpenQueuedResult}
+        />
+      }
     >
+      {/* Unfinished batch jobs from a previous session */}
+      {isSettingsValid && pendingJobs.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {pendingJobs.map(job => (
+            <div key={job.id} className="flex items-center justify-between gap-4 rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3">
+              <div className="min-w-0">
+                <p className="font-medium text-foreground truncate">Unfinished transcription: {job.fileName}</p>
+                <p className="text-sm text-muted-foreground">
+                  {job.totalChunks
+                    ? `${job.completedChunks.length} of ${job.totalChunks} chunks done`
+                    : `${job.completedChunks.length} chunks done`}
+                  {' · '}last updated {new Date(job.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button size="sm" onClick={() => handleResumeJob(job.id)}>
+                  Resume
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => discardJob(job.id)}>
+                  Discard
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Main Content Based on Current State */}
-      {!isSettingsValid ? (
+      {showActionItems ? (
+        // Outstanding action items across all recordings
+        <OpenActionItems
+          results={results}
+          onStatusChange={setActionItemStatus}
+          onOpenResult={handleSelectResult}
+        />
+      ) : !isSettingsValid ? (
         // API Key Warning
         <div className="flex items-center justify-center min-h-[400px]">
           <div className="text-center space-y-6 max-w-md p-8">
@@ -187,163 +329,90 @@ function App() {
             </Button>
           </div>
         </div>
-      ) : currentFile || showUploadInterface ? (
-        // File Upload & Processing State
+      ) : showUploadInterface ? (
+        // File Upload State
         <div className="upload-workspace">
           <div className="upload-container">
-            <AudioUploader 
-              onFileSelect={handleFileSelect}
-              isLoading={isLoading}
-              disabled={!isSettingsValid}
-            />
-            
-            {currentFile && (
-              <div className="current-file-card">
-              <div className="file-header">
-                <div className="file-icon">🎙️</div>
-                <div className="file-info">
-                  <h3>{currentFile.name}</h3>
-                  <div className="file-meta">
-                    <span>{(currentFile.size / 1024 / 1024).toFixed(2)} MB</span>
-                    {currentFile.duration && (
-                      <span>{Math.round(currentFile.duration)}s</span>
-                    )}
-                  </div>
-                </div>
-                <button 
-                  className="remove-file-btn"
-                  onClick={() => {
-                    setCurrentFile(null);
-                    setShowUploadInterface(false);
-                  }}
-                  disabled={isLoading}
-                  title="Remove file"
-                >
-                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <line x1="18" y1="6" x2="6" y2="18" />
-                    <line x1="6" y1="6" x2="18" y2="18" />
+            {/* Context Input Section - attached to the next files added */}
+            <div className="p-4 border border-border rounded-lg bg-card mb-4">
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <svg className="h-4 w-4 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
                   </svg>
-                </button>
-              </div>
-
-              {currentFile.url && (
-                <div className="audio-preview">
-                  <audio controls src={currentFile.url} />
+                  <h3 className="text-sm font-medium text-foreground">Recording Context</h3>
+                  <span className="text-xs text-muted-foreground">(Optional)</span>
                 </div>
-              )}
-
-              {/* Context Input Section */}
-              <div className="p-4 border border-border rounded-lg bg-card">
-                <div className="space-y-3">
-                  <div className="flex items-center gap-2">
-                    <svg className="h-4 w-4 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-                    </svg>
-                    <h3 className="text-sm font-medium text-foreground">Recording Context</h3>
-                    <span className="text-xs text-muted-foreground">(Optional)</span>
-                  </div>
-                  <p className="text-xs text-muted-foreground">
-                    Provide context about this recording to help the AI generate a better summary. 
-                    This will be used during the initial summary generation.
-                  </p>
-                  <Textarea
-                    placeholder="e.g., This is a client meeting about project requirements for a new mobile app. The client mentioned they want to focus on user experience and have a tight deadline..."
-                    value={transcriptionContext}
-                    onChange={(e) => setTranscriptionContext(e.target.value)}
-                    className="min-h-[80px] text-sm"
-                    rows={3}
-                    disabled={isLoading || isGeneratingSummary}
+                <p className="text-xs text-muted-foreground">
+                  Provide context about the next recordings you add to help the AI generate a better summary. 
+                  This will be used during the initial summary generation.
+                </p>
+                <Textarea
+                  placeholder="e.g., This is a client meeting about project requirements for a new mobile app. The client mentioned they want to focus on user experience and have a tight deadline..."
+                  value={transcriptionContext}
+                  onChange={(e) => setTranscriptionContext(e.target.value)}
+                  className="min-h-[80px] text-sm"
+                  rows={3}
+                />
+                <div className="flex items-center gap-2">
+                  <label htmlFor="upload-template" className="text-xs font-medium text-foreground flex-shrink-0">
+                    Summary template
+                  </label>
+                  <TemplateSelect
+                    id="upload-template"
+                    templates={settings.summaryTemplates ?? []}
+                    value={templateChoice}
+                    onChange={setTemplateChoice}
+                    className="h-8 text-xs"
                   />
-                  <div className="flex items-center justify-between text-xs text-muted-foreground">
-                    <span>
-                      {transcriptionContext.length > 0 ? `${transcriptionContext.length} characters` : 'No context provided'}
-                    </span>
-                    {transcriptionContext.trim() && (
-                      <div className="flex items-center gap-1 text-blue-600">
-                        <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                        </svg>
-                        <span className="font-medium">Will enhance summary</span>
-                      </div>
-                    )}
-                  </div>
                 </div>
-              </div>
-
-              <div className="transcribe-actions">
-                <button 
-                  className="transcribe-btn"
-                  onClick={handleTranscribe}
-                  disabled={isTranscribeDisabled}
-                >
-                  {isLoading 
-                    ? (batchProgress 
-                      ? `${batchProgress.phase === 'analyzing' ? 'Analyzing...' :
-                           batchProgress.phase === 'chunking' ? 'Splitting...' :
-                           batchProgress.phase === 'processing' ? 
-                             (batchProgress.totalChunks === 1 ? 
-                               `Compressing... ${batchProgress.progress.toFixed(0)}%` :
-                               `Processing ${batchProgress.currentChunk}/${batchProgress.totalChunks}`) :
-                           batchProgress.phase === 'combining' ? 
-                             (batchProgress.totalChunks === 1 ? 'Transcribing...' : 'Combining...') :
-                           'Processing...'}`
-                      : 'Transcribing...')
-                    : isGeneratingSummary 
-                    ? 'Generating Summary...' 
-                    : 'Start Transcription'}
-                  {!isLoading && !isGeneratingSummary && (
-                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                      <polygon points="5,3 19,12 5,21 5,3" />
-                    </svg>
-                  )}
-                </button>
-              </div>
-
-              {/* Progress Display */}
-              {batchProgress && (
-                <div className="progress-card">
-                  <div className="progress-info">
-                    <div className="progress-title">
-                      {batchProgress.phase === 'analyzing' && '🔍 Analyzing file...'}
-                      {batchProgress.phase === 'chunking' && '✂️ Splitting into chunks...'}
-                      {batchProgress.phase === 'processing' && (
-                        batchProgress.totalChunks === 1 ? '🗜️ Compressing audio...' : '🎵 Processing chunks...'
-                      )}
-                      {batchProgress.phase === 'combining' && (
-                        batchProgress.totalChunks === 1 ? '🎵 Transcribing...' : '🔗 Combining results...'
-                      )}
-                    </div>
-                    <div className="progress-details">
-                      {batchProgress.phase === 'processing' && batchProgress.totalChunks > 1 ? (
-                        `Chunk ${batchProgress.currentChunk} of ${batchProgress.totalChunks}`
-                      ) : (
-                        `${Math.round(batchProgress.progress)}% complete`
-                      )}
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {transcriptionContext.length > 0 ? `${transcriptionContext.length} characters` : 'No context provided'}
+                  </span>
+                  {transcriptionContext.trim() && (
+                    <div className="flex items-center gap-1 text-blue-600">
+                      <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                      </svg>
+                      <span className="font-medium">Will enhance summary</span>
                     </div>
-                  </div>
-                  <div className="progress-bar">
-                    <div 
-                      className="progress-fill" 
-                      style={{ width: `${batchProgress.progress}%` }}
-                    />
-                  </div>
+                  )}
                 </div>
-              )}
+              </div>
             </div>
-            )}
+
+            <AudioUploader 
+              onFilesSelect={handleFilesSelect}
+              disabled={!isSettingsValid}
+              liveTranscription={{
+                provider: transcriptionProvider,
+                overlapDuration: settings.chunkOverlap,
+                onComplete: handleLiveTranscription,
+              }}
+            />
           </div>
         </div>
               ) : selectedResult ? (
           // Selected Result View
           <div style={{ padding: '0' }}>
             <ModernTranscriptionResult
-              result={selectedResult}
+              result={results.find(result => result.id === selectedResult.id) ?? selectedResult}
               onRemove={handleRemoveResult}
-              isGeneratingSummary={isGeneratingSummary}
+              isGeneratingSummary={!!summarisingJob}
+              summaryProgress={summarisingJob?.summaryProgress ?? regenerationProgress[selectedResult.id]}
+              onCancelSummary={summarisingJob ? () => cancelJob(summarisingJob.id) : undefined}
               isRegenerating={regeneratingIds.has(selectedResult.id)}
               onRegenerateSummary={handleRegenerateSummary}
               onUpdateContext={handleUpdateContext}
               onRegenerateWithContext={handleRegenerateWithContext}
+              onChangeContentType={handleChangeContentType}
+              onActionItemStatusChange={setActionItemStatus}
+              isAnswering={answeringIds.has(selectedResult.id)}
+              onAskQuestion={handleAskQuestion}
+              onClearChat={clearChat}
+              onRenameSpeaker={renameSpeaker}
+              summaryTemplates={settings.summaryTemplates}
               className="selected-result"
             />
           </div>
@@ -0,0 +1,72 @@
+import { CalendarClock, CheckCircle2, Circle, Play, User } from 'lucide-react';
+import type { ActionItem } from '../../types';
+import { getActionItemDescription, isOverdue } from '../../utils/actionItems';
+import { formatTimestamp } from '../../utils/file';
+
+interface ActionItemRowProps {
+  item: ActionItem;
+  languageCode?: string; // description language, defaults to the item's first
+  onStatusChange?: (status: ActionItem['status']) => void;
+  onPlay?: (seconds: number) => void; // only when the recording is available to play
+  source?: React.ReactNode; // where the item comes from, in lists spanning recordings
+}
+
+/**
+ * One action item with its checkbox, owner, due date and the moment it came up
+ */
+export const ActionItemRow: React.FC<ActionItemRowProps> = ({ item, languageCode, onStatusChange, onPlay, source }) => {
+  const { timestamp } = item;
+  const done = item.status === 'done';
+  const overdue = isOverdue(item);
+
+  return (
+    <li className="flex items-start gap-2 text-sm">
+      <button
+        type="button"
+        role="checkbox"
+        aria-checked={done}
+        onClick={onStatusChange ? () => onStatusChange(done ? 'open' : 'done') : undefined}
+        disabled={!onStatusChange}
+        title={done ? `Done${item.completedAt ? ` on ${item.completedAt.toLocaleDateString()}` : ''} - mark as open` : 'Mark as done'}
+        className="mt-0.5 flex-shrink-0 text-muted-foreground transition-colors hover:text-foreground disabled:cursor-default"
+      >
+        {done ? <CheckCircle2 className="h-4 w-4 text-emerald-600" /> : <Circle className="h-4 w-4" />}
+      </button>
+      <div className="min-w-0 flex-1 space-y-1">
+        <p className={`leading-relaxed ${done ? 'text-muted-foreground line-through' : ''}`} dir="auto">
+          {getActionItemDescription(item, languageCode)}
+        </p>
+        {(item.owner || item.dueDate || timestamp !== undefined || source) && (
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+            {item.owner && (
+              <span className="inline-flex items-center gap-1">
+                <User className="h-3 w-3" />
+                {item.owner}
+              </span>
+            )}
+            {item.dueDate && (
+              <span className={`inline-flex items-center gap-1 ${overdue ? 'font-medium text-destructive' : ''}`}>
+                <CalendarClock className="h-3 w-3" />
+                {item.dueDate}
+                {overdue && ' (overdue)'}
+              </span>
+            )}
+            {timestamp !== undefined && (
+              <button
+                type="button"
+                onClick={onPlay ? () => onPlay(timestamp) : undefined}
+                disabled={!onPlay}
+                title={onPlay ? 'Play from here' : undefined}
+                className="inline-flex items-center gap-1 font-mono transition-colors hover:text-foreground disabled:cursor-default disabled:hover:text-muted-foreground"
+              >
+                {onPlay && <Play className="h-3 w-3" />}
+                {formatTimestamp(timestamp)}
+              </button>
+            )}
+            {source}
+          </div>
+        )}
+      </div>
+    </li>
+  );
+};
@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react';
+import { ListChecks, Mic } from 'lucide-react';
+import type { ActionItem, TranscriptionResult } from '../../types';
+import { collectOpenActionItems, isOverdue } from '../../utils/actionItems';
+import { getSummaryTitle } from '../../utils/languages';
+import { ActionItemRow } from './ActionItemRow';
+
+// shadcn/ui components
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface OpenActionItemsProps {
+  results: TranscriptionResult[];
+  onStatusChange: (resultId: string, itemId: string, status: ActionItem['status']) => void;
+  onOpenResult: (result: TranscriptionResult) => void;
+}
+
+const ALL_OWNERS = 'all';
+const UNASSIGNED = 'unassigned';
+
+/**
+ * Everything still outstanding across the library, soonest due first
+ */
+export const OpenActionItems: React.FC<OpenActionItemsProps> = ({ results, onStatusChange, onOpenResult }) => {
+  const [owner, setOwner] = useState(ALL_OWNERS);
+  const openItems = useMemo(() => collectOpenActionItems(results), [results]);
+  const owners = useMemo(
+    () => [...new Set(openItems.flatMap(({ item }) => item.owner ? [item.owner] : []))].sort((a, b) => a.localeCompare(b)),
+    [openItems]
+  );
+
+  // An owner whose last item was just ticked off falls back to everyone
+  const ownerFilter = owner === ALL_OWNERS || owner === UNASSIGNED || owners.includes(owner) ? owner : ALL_OWNERS;
+  const visibleItems = openItems.filter(({ item }) =>
+    ownerFilter === ALL_OWNERS || (ownerFilter === UNASSIGNED ? !item.owner : item.owner === ownerFilter)
+  );
+  const overdueCount = openItems.filter(({ item }) => isOverdue(item)).length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <ListChecks className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-base">Open Action Items</CardTitle>
+            <Badge variant="secondary" className="text-xs">{openItems.length}</Badge>
+            {overdueCount > 0 && (
+              <Badge variant="destructive" className="text-xs">{overdueCount} overdue</Badge>
+            )}
+          </div>
+          {openItems.length > 0 && (
+            <Select value={ownerFilter} onValueChange={setOwner}>
+              <SelectTrigger className="h-8 w-44 text-sm" aria-label="Filter by owner">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_OWNERS}>Everyone</SelectItem>
+                <SelectItem value={UNASSIGNED}>No owner</SelectItem>
+                {owners.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <CardDescription>
+          Action items from every recording that haven't been ticked off yet.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {visibleItems.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {openItems.length === 0 ? 'Nothing outstanding. Action items appear here as recordings are summarised.' : 'No open items for this owner.'}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {visibleItems.map(({ item, result }) => (
+              <ActionItemRow
+                key={`${result.id}-${item.id}`}
+                item={item}
+                onStatusChange={(status) => onStatusChange(result.id, item.id, status)}
+                source={
+                  <button
+                    type="button"
+                    onClick={() => onOpenResult(result)}
+                    className="inline-flex min-w-0 items-center gap-1 transition-colors hover:text-foreground hover:underline"
+                  >
+                    <Mic className="h-3 w-3 flex-shrink-0" />
+                    <span className="truncate">{getSummaryTitle(result.summary) || result.audioFileName}</span>
+                  </button>
+                }
+              />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
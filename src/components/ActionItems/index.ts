@@ -0,0 +1,2 @@
+export { ActionItemRow } from './ActionItemRow';
+export { OpenActionItems } from './OpenActionItems';
@@ -1,18 +1,31 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { AudioFile } from '../../types';
-import { isAudioFile } from '../../utils/file';
+import { Mic, Pause, Play, Square, Upload, X } from 'lucide-react';
+import type { AudioFile, TranscriptionOutput, TranscriptionProvider } from '../../types';
+import { isAudioFile, isVideoFile, formatTimestamp, getDroppedFiles } from '../../utils/file';
+import { useAudioRecorder } from '../../hooks/useAudioRecorder';
+import { LiveTranscriptionSession, type LiveTranscriptionUpdate } from '../../services/liveTranscription';
 import './AudioUploader.css';
 
+type UploaderMode = 'upload' | 'record';
+
+export interface LiveTranscriptionConfig {
+  provider: TranscriptionProvider;
+  overlapDuration?: number;
+  onComplete: (file: File, transcription: TranscriptionOutput) => void;
+}
+
 interface AudioUploaderProps {
-  onFileSelect: (file: AudioFile) => void;
+  onFilesSelect: (files: AudioFile[]) => void;
   isLoading?: boolean;
   disabled?: boolean;
+  liveTranscription?: LiveTranscriptionConfig; // enables transcribing while recording
 }
 
 export const AudioUploader: React.FC<AudioUploaderProps> = ({
-  onFileSelect,
+  onFilesSelect,
   isLoading = false,
   disabled = false,
+  liveTranscription,
 }) => {
 
   
@@ -20,6 +33,21 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<UploaderMode>('upload');
+  const recorder = useAudioRecorder();
+  const isRecording = recorder.status === 'recording' || recorder.status === 'paused';
+  const [isLiveEnabled, setIsLiveEnabled] = useState(false);
+  const [liveUpdate, setLiveUpdate] = useState<LiveTranscriptionUpdate | null>(null);
+  const liveSessionRef = useRef<LiveTranscriptionSession | null>(null);
+  const liveTranscriptRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest live text in view
+  useEffect(() => {
+    liveTranscriptRef.current?.scrollTo({ top: liveTranscriptRef.current.scrollHeight });
+  }, [liveUpdate?.text]);
+
+  // Don't leave requests running if the uploader goes away mid-recording
+  useEffect(() => () => liveSessionRef.current?.cancel(), []);
 
   useEffect(() => {
     // Initialize file input event listener
@@ -36,31 +64,31 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
     }
   }, []);
 
-  const processFile = useCallback(async (file: File) => {
+  const processFiles = useCallback(async (files: File[]) => {
     setError(null);
     setIsProcessing(true);
 
     try {
-      // Validate file type
-      if (!isAudioFile(file)) {
-        throw new Error('Please select a valid audio file');
+      // Validate file types - anything else in a dropped folder is skipped
+      const audioFiles = files.filter(file => isAudioFile(file) || isVideoFile(file));
+      if (audioFiles.length === 0) {
+        throw new Error(files.length > 1 ? 'None of the selected files are audio or video files' : 'Please select a valid audio or video file');
+      }
+      if (audioFiles.length < files.length) {
+        setError(`Skipped ${files.length - audioFiles.length} file(s) that aren't audio or video`);
       }
 
       // Get audio duration (skipped for now to avoid potential issues)
-      let duration: number | undefined;
-      duration = undefined;
-
-      const audioFile: AudioFile = {
+      const selected: AudioFile[] = audioFiles.map(file => ({
         file,
         id: crypto.randomUUID(),
         name: file.name,
         size: file.size,
-        duration,
+        duration: undefined,
         url: URL.createObjectURL(file),
-      };
+      }));
 
-      // Call onFileSelect
-      onFileSelect(audioFile);
+      onFilesSelect(selected);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to process file';
       console.error('File processing error:', err);
@@ -68,7 +96,7 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
     } finally {
       setIsProcessing(false);
     }
-  }, [onFileSelect]);
+  }, [onFilesSelect]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -88,11 +116,12 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
 
     if (disabled || isProcessing) return;
 
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) {
-      processFile(files[0]);
-    }
-  }, [disabled, isProcessing, processFile]);
+    getDroppedFiles(e.dataTransfer).then(files => {
+      if (files.length > 0) {
+        processFiles(files);
+      }
+    });
+  }, [disabled, isProcessing, processFiles]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (disabled || isProcessing) {
@@ -102,14 +131,14 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
     const files = e.target.files;
     
     if (files && files.length > 0) {
-      processFile(files[0]).finally(() => {
+      processFiles(Array.from(files)).finally(() => {
         // Reset input after processing is complete
         if (fileInputRef.current) {
           fileInputRef.current.value = '';
         }
       });
     }
-  }, [disabled, isProcessing, processFile]);
+  }, [disabled, isProcessing, processFiles]);
 
   const handleClick = useCallback(() => {
     if (!disabled && !isProcessing && fileInputRef.current) {
@@ -117,64 +146,230 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
     }
   }, [disabled, isProcessing]);
 
-  const supportedFormats = ['mp3', 'mp4', 'm4a', 'wav', 'webm'];
+  const handleStartRecording = useCallback(() => {
+    setError(null);
+    if (!isLiveEnabled || !liveTranscription) {
+      recorder.start();
+      return;
+    }
+
+    const session = new LiveTranscriptionSession(liveTranscription.provider, {
+      overlapDuration: liveTranscription.overlapDuration,
+      onUpdate: setLiveUpdate,
+    });
+    liveSessionRef.current = session;
+    setLiveUpdate(null);
+    recorder.start({ onSamples: (samples, sampleRate) => session.pushSamples(samples, sampleRate) });
+  }, [isLiveEnabled, liveTranscription, recorder]);
+
+  const handleStopRecording = useCallback(async () => {
+    const file = await recorder.stop();
+    const session = liveSessionRef.current;
+    liveSessionRef.current = null;
+
+    if (!file) {
+      session?.cancel();
+      setLiveUpdate(null);
+      setError('Nothing was recorded');
+      return;
+    }
+
+    if (session && liveTranscription) {
+      setIsProcessing(true);
+      try {
+        const transcription = await session.finish();
+        if (transcription) {
+          liveTranscription.onComplete(file, transcription);
+          return;
+        }
+        // Part of the live transcript is missing - fall back to transcribing the whole recording
+        setError('Live transcription was incomplete, so the full recording will be transcribed instead.');
+      } finally {
+        setIsProcessing(false);
+        setLiveUpdate(null);
+      }
+    }
+
+    await processFiles([file]);
+  }, [recorder, liveTranscription, processFiles]);
+
+  const handleDiscardRecording = useCallback(() => {
+    liveSessionRef.current?.cancel();
+    liveSessionRef.current = null;
+    setLiveUpdate(null);
+    recorder.cancel();
+  }, [recorder]);
+
+  const supportedFormats = ['mp3', 'mp4', 'm4a', 'wav', 'webm', 'mov', 'mkv', 'avi'];
 
   return (
     <div className="audio-uploader">
-      <div
-        className={`upload-area ${isDragOver ? 'drag-over' : ''} ${disabled || isProcessing ? 'disabled' : ''}`}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-        onClick={handleClick}
-        role="button"
-        tabIndex={disabled || isProcessing ? -1 : 0}
-        aria-label="Upload audio file"
-      >
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept="audio/*,.m4a,.mp3,.wav,.mp4,.webm"
-          onChange={handleFileInput}
-          disabled={disabled || isProcessing}
-          className="file-input"
-          style={{ position: 'absolute', opacity: 0, pointerEvents: 'none' }}
-        />
-
-        <div className="upload-content">
-          <div className="upload-icon">
-            {isLoading || isProcessing ? (
-              <div className="spinner" />
-            ) : (
-              <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
-                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
-                <polyline points="7,10 12,15 17,10" />
-                <line x1="12" y1="15" x2="12" y2="3" />
-              </svg>
-            )}
-          </div>
+      {recorder.isSupported && (
+        <div className="uploader-modes" role="tablist">
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'upload'}
+            className={`mode-btn ${mode === 'upload' ? 'active' : ''}`}
+            onClick={() => setMode('upload')}
+            disabled={isRecording}
+          >
+            <Upload size={16} />
+            Upload file
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'record'}
+            className={`mode-btn ${mode === 'record' ? 'active' : ''}`}
+            onClick={() => setMode('record')}
+            disabled={isLoading || isProcessing}
+          >
+            <Mic size={16} />
+            Record
+          </button>
+        </div>
+      )}
+
+      {mode === 'record' ? (
+        <div className={`record-area ${disabled || isLoading || isProcessing ? 'disabled' : ''}`}>
+          {isRecording ? (
+            <>
+              <div className="record-status">
+                <span className={`record-dot ${recorder.status === 'paused' ? 'paused' : ''}`} />
+                <span className="record-time">{formatTimestamp(recorder.elapsed)}</span>
+                {recorder.status === 'paused' && <span className="record-paused-label">Paused</span>}
+              </div>
+
+              <div className="level-meter" aria-label="Input level">
+                <div className="level-meter-fill" style={{ width: `${Math.round(recorder.level * 100)}%` }} />
+              </div>
+
+              <div className="record-controls">
+                {recorder.status === 'recording' ? (
+                  <button type="button" className="record-control-btn" onClick={recorder.pause}>
+                    <Pause size={18} />
+                    Pause
+                  </button>
+                ) : (
+                  <button type="button" className="record-control-btn" onClick={recorder.resume}>
+                    <Play size={18} />
+                    Resume
+                  </button>
+                )}
+                <button type="button" className="record-control-btn primary" onClick={handleStopRecording}>
+                  <Square size={18} />
+                  Stop
+                </button>
+                <button type="button" className="record-control-btn" onClick={handleDiscardRecording} title="Discard recording">
+                  <X size={18} />
+                  Discard
+                </button>
+              </div>
 
-          <div className="upload-text">
-            <p className="primary-text">
-              {isLoading ? 'Transcribing...' : 
-               isProcessing ? 'Processing file...' : 
-               'Drop your audio file here or click to browse'}
-            </p>
-            <p className="secondary-text">
-              Supports: {supportedFormats.join(', ')} • Large files automatically compressed
-            </p>
+              {isLiveEnabled && liveTranscription && (
+                <div className="live-transcript">
+                  <div className="live-transcript-header">
+                    <span>Live transcript</span>
+                    {liveUpdate && liveUpdate.pendingWindows > 0 && <span>Transcribing...</span>}
+                  </div>
+                  <div ref={liveTranscriptRef} className="live-transcript-text">
+                    {liveUpdate?.text || 'Text appears here every few seconds as you speak.'}
+                  </div>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="upload-content">
+              <button
+                type="button"
+                className="record-start-btn"
+                onClick={handleStartRecording}
+                disabled={disabled || isLoading || isProcessing || recorder.status === 'requesting'}
+                aria-label="Start recording"
+              >
+                <Mic size={32} />
+              </button>
+              <div className="upload-text">
+                <p className="primary-text">
+                  {isProcessing ? 'Finishing live transcript...' :
+                   recorder.status === 'requesting' ? 'Waiting for microphone access...' :
+                   'Record from your microphone'}
+                </p>
+                <p className="secondary-text">
+                  The recording is transcribed just like an uploaded file
+                </p>
+              </div>
+              {liveTranscription && (
+                <label className="live-toggle">
+                  <input
+                    type="checkbox"
+                    checked={isLiveEnabled}
+                    onChange={(e) => setIsLiveEnabled(e.target.checked)}
+                  />
+                  Transcribe live while recording
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div
+          className={`upload-area ${isDragOver ? 'drag-over' : ''} ${disabled || isProcessing ? 'disabled' : ''}`}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+          onClick={handleClick}
+          role="button"
+          tabIndex={disabled || isProcessing ? -1 : 0}
+          aria-label="Upload audio files"
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*,video/*,.m4a,.mp3,.wav,.mp4,.webm,.mov,.mkv,.avi"
+            multiple
+            onChange={handleFileInput}
+            disabled={disabled || isProcessing}
+            className="file-input"
+            style={{ position: 'absolute', opacity: 0, pointerEvents: 'none' }}
+          />
+
+          <div className="upload-content">
+            <div className="upload-icon">
+              {isLoading || isProcessing ? (
+                <div className="spinner" />
+              ) : (
+                <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                  <polyline points="7,10 12,15 17,10" />
+                  <line x1="12" y1="15" x2="12" y2="3" />
+                </svg>
+              )}
+            </div>
+
+            <div className="upload-text">
+              <p className="primary-text">
+                {isLoading ? 'Transcribing...' : 
+                 isProcessing ? 'Processing files...' : 
+                 'Drop audio or video files, or a folder, here or click to browse'}
+              </p>
+              <p className="secondary-text">
+                Supports: {supportedFormats.join(', ')} • Files are queued and transcribed in turn
+              </p>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
-      {error && (
+      {(error || recorder.error) && (
         <div className="error-message">
           <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <circle cx="12" cy="12" r="10" />
             <line x1="15" y1="9" x2="9" y2="15" />
             <line x1="9" y1="9" x2="15" y2="15" />
           </svg>
-          {error}
+          {error || recorder.error}
         </div>
       )}
     </div>
@@ -0,0 +1,205 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AlertCircle, Loader2, MessagesSquare, Play, Quote, Send, Trash2 } from 'lucide-react';
+import type { ChatCitation, TranscriptChatMessage, TranscriptionError } from '../../types';
+import { formatTimestamp } from '../../utils/file';
+
+// shadcn/ui components
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+interface TranscriptChatProps {
+  messages: TranscriptChatMessage[];
+  isAnswering?: boolean;
+  onAsk: (question: string) => Promise<void>;
+  onClear?: () => void;
+  onPlayCitation?: (citation: ChatCitation) => void; // only when the recording is available to play
+  className?: string;
+}
+
+const EXAMPLE_QUESTIONS = [
+  'What decisions were made?',
+  'What did they say about the budget?',
+  'Which questions were left open?',
+];
+
+const CitationChip: React.FC<{ citation: ChatCitation; onPlay?: (citation: ChatCitation) => void }> = ({ citation, onPlay }) => {
+  const { startTime } = citation;
+  const canPlay = !!onPlay && startTime !== undefined;
+
+  return (
+    <button
+      type="button"
+      onClick={canPlay ? () => onPlay(citation) : undefined}
+      disabled={!canPlay}
+      title={canPlay ? 'Play this passage' : citation.quote}
+      className={`flex items-start gap-2 rounded-md border bg-background px-2 py-1.5 text-left text-xs transition-colors ${
+        canPlay ? 'hover:bg-muted cursor-pointer' : 'cursor-default'
+      }`}
+    >
+      <span className="flex items-center gap-1 font-mono text-muted-foreground flex-shrink-0 pt-px">
+        {canPlay ? <Play className="h-3 w-3" /> : <Quote className="h-3 w-3" />}
+        {startTime !== undefined ? formatTimestamp(startTime) : `#${citation.passage + 1}`}
+      </span>
+      <span className="line-clamp-2 text-foreground" dir="auto">“{citation.quote}”</span>
+    </button>
+  );
+};
+
+/**
+ * Questions and answers about one recording. Answers come from the transcript and cite the passages they used.
+ */
+export const TranscriptChat: React.FC<TranscriptChatProps> = ({
+  messages,
+  isAnswering = false,
+  onAsk,
+  onClear,
+  onPlayCitation,
+  className = '',
+}) => {
+  const [draft, setDraft] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [messages.length, pendingQuestion]);
+
+  const handleAsk = useCallback(async (question: string) => {
+    const trimmed = question.trim();
+    if (!trimmed || isAnswering) return;
+
+    setDraft('');
+    setError(null);
+    setPendingQuestion(trimmed);
+    try {
+      await onAsk(trimmed);
+    } catch (err) {
+      // Put the question back so it can be edited or sent again
+      setDraft(trimmed);
+      setError((err as TranscriptionError)?.message || 'The question could not be answered');
+    } finally {
+      setPendingQuestion(null);
+    }
+  }, [isAnswering, onAsk]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleAsk(draft);
+    }
+  }, [handleAsk, draft]);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <MessagesSquare className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-base">Ask the Transcript</CardTitle>
+          </div>
+          {onClear && messages.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClear}
+              disabled={isAnswering}
+              className="h-7 px-2 text-xs"
+            >
+              <Trash2 className="h-3 w-3 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          Answers come only from this recording's transcript, with the passages they're based on.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {messages.length === 0 && !pendingQuestion ? (
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLE_QUESTIONS.map(example => (
+              <Button
+                key={example}
+                variant="outline"
+                size="sm"
+                onClick={() => handleAsk(example)}
+                disabled={isAnswering}
+                className="h-7 px-2 text-xs"
+              >
+                {example}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-[480px] overflow-y-auto pr-1">
+            {messages.map(message => message.role === 'user' ? (
+              <div key={message.id} className="flex justify-end">
+                <div className="max-w-[85%] rounded-lg bg-primary px-3 py-2 text-sm text-primary-foreground whitespace-pre-wrap" dir="auto">
+                  {message.content}
+                </div>
+              </div>
+            ) : (
+              <div key={message.id} className="max-w-[85%] space-y-2 rounded-lg bg-muted px-3 py-2">
+                <p className="text-sm leading-relaxed whitespace-pre-wrap" dir="auto">{message.content}</p>
+                {message.citations && message.citations.length > 0 && (
+                  <div className="grid gap-1.5">
+                    {message.citations.map((citation, index) => (
+                      <CitationChip key={index} citation={citation} onPlay={onPlayCitation} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {pendingQuestion && (
+              <>
+                <div className="flex justify-end">
+                  <div className="max-w-[85%] rounded-lg bg-primary/80 px-3 py-2 text-sm text-primary-foreground whitespace-pre-wrap" dir="auto">
+                    {pendingQuestion}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Searching the transcript...
+                </div>
+              </>
+            )}
+            <div ref={endRef} />
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-end gap-2">
+          <Textarea
+            placeholder="Ask about this recording, e.g. what was decided about the launch date?"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="min-h-[44px] resize-none text-sm"
+            rows={2}
+            dir="auto"
+          />
+          <Button
+            onClick={() => handleAsk(draft)}
+            disabled={!draft.trim() || isAnswering}
+            size="sm"
+            className="h-10"
+          >
+            {isAnswering ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            <span className="sr-only">Ask</span>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1 @@
+export { TranscriptChat } from './TranscriptChat';
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Sidebar } from '../Sidebar';
 import type { TranscriptionResult } from '../../types';
+import { getSummaryTitle } from '../../utils/languages';
 import './Layout.css';
 
 interface LayoutProps {
@@ -69,7 +70,7 @@ export const Layout: React.FC<LayoutProps> = ({
                 </div>
                 <div className="recording-details">
                   <h1 className="recording-title">
-                    {selectedResult.summary?.englishTitle || selectedResult.audioFileName}
+                    {getSummaryTitle(selectedResult.summary) || selectedResult.audioFileName}
                   </h1>
                   <div className="recording-meta">
                     <span className="recording-date">
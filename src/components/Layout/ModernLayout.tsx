@@ -1,6 +1,7 @@
 import React from 'react';
 import { Settings } from 'lucide-react';
 import type { TranscriptionResult } from '../../types';
+import { getSummaryTitle } from '../../utils/languages';
 import { ModernSidebar } from '../Sidebar/ModernSidebar';
 import { Button } from '@/components/ui/button';
 import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
@@ -56,7 +57,7 @@ export const ModernLayout: React.FC<ModernLayoutProps> = ({
                   </div>
                   <div className="min-w-0 flex-1">
                     <h1 className="truncate text-lg font-semibold">
-                      {selectedResult.summary?.englishTitle || selectedResult.audioFileName}
+                      {getSummaryTitle(selectedResult.summary) || selectedResult.audioFileName}
                     </h1>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                       <span>{selectedResult.createdAt.toLocaleDateString()}</span>
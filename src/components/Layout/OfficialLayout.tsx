@@ -1,10 +1,12 @@
 import React from 'react';
 import type { TranscriptionResult } from '../../types';
+import { getSummaryTitle } from '../../utils/languages';
 import { AppSidebar } from '../app-sidebar';
 import { SidebarProvider, SidebarInset, SidebarTrigger } from '@/components/ui/sidebar';
 
 interface OfficialLayoutProps {
   children: React.ReactNode;
+  queuePanel?: React.ReactNode; // shown above the main content while jobs are queued
   results: TranscriptionResult[];
   selectedResult?: TranscriptionResult;
   onSelectResult: (result: TranscriptionResult) => void;
@@ -12,10 +14,14 @@ interface OfficialLayoutProps {
   onDeleteResult: (id: string) => void;
   onClearAllResults: () => void;
   onOpenSettings: () => void;
+  openActionItemCount?: number;
+  isActionItemsActive?: boolean;
+  onOpenActionItems?: () => void;
 }
 
 export const OfficialLayout: React.FC<OfficialLayoutProps> = ({
   children,
+  queuePanel,
   results,
   selectedResult,
   onSelectResult,
@@ -23,6 +29,9 @@ export const OfficialLayout: React.FC<OfficialLayoutProps> = ({
   onDeleteResult,
   onClearAllResults,
   onOpenSettings,
+  openActionItemCount,
+  isActionItemsActive,
+  onOpenActionItems,
 }) => {
   return (
     <SidebarProvider defaultOpen={true}>
@@ -34,6 +43,9 @@ export const OfficialLayout: React.FC<OfficialLayoutProps> = ({
         onDeleteResult={onDeleteResult}
         onClearAll={onClearAllResults}
         onOpenSettings={onOpenSettings}
+        openActionItemCount={openActionItemCount}
+        isActionItemsActive={isActionItemsActive}
+        onOpenActionItems={onOpenActionItems}
       />
       
       <SidebarInset>
@@ -52,7 +64,7 @@ export const OfficialLayout: React.FC<OfficialLayoutProps> = ({
                   </div>
                   <div className="min-w-0 flex-1">
                     <h1 className="truncate text-lg font-semibold bg-gradient-to-r from-foreground to-primary bg-clip-text text-transparent">
-                      {selectedResult.summary?.englishTitle || selectedResult.audioFileName}
+                      {getSummaryTitle(selectedResult.summary) || selectedResult.audioFileName}
                     </h1>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                       <span>{selectedResult.createdAt.toLocaleDateString()}</span>
@@ -78,6 +90,7 @@ export const OfficialLayout: React.FC<OfficialLayoutProps> = ({
 
         {/* Main Content */}
         <div className="flex flex-1 flex-col gap-4 p-4">
+          {queuePanel}
           {children}
         </div>
       </SidebarInset>
@@ -0,0 +1,198 @@
+import { CheckCircle2, Clock, FileAudio, FileVideo, Loader2, RotateCcw, Square, X, XCircle } from 'lucide-react';
+import type { QueueJob, QueueJobStatus } from '../../types';
+import { formatDuration, formatFileSize, isVideoFile } from '../../utils/file';
+import { describeSummaryProgress } from '../../utils/transcriptSections';
+
+// shadcn/ui components
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+interface QueuePanelProps {
+  jobs: QueueJob[];
+  maxConcurrentJobs: number;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onOpenResult: (resultId: string) => void;
+}
+
+const STATUS_LABELS: Record<QueueJobStatus, string> = {
+  queued: 'Queued',
+  compressing: 'Compressing',
+  transcribing: 'Transcribing',
+  summarising: 'Summarising',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const statusIcon = (status: QueueJobStatus) => {
+  switch (status) {
+    case 'queued':
+      return <Clock className="h-4 w-4 text-muted-foreground" />;
+    case 'done':
+      return <CheckCircle2 className="h-4 w-4 text-green-500" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-destructive" />;
+    default:
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+};
+
+const describeProgress = (job: QueueJob): string | null => {
+  if (job.status === 'summarising') {
+    if (job.summaryRetry) return `Retrying summary (${job.summaryRetry.attempt}/${job.summaryRetry.maxAttempts})...`;
+    return job.summaryProgress ? describeSummaryProgress(job.summaryProgress) : 'Generating summary...';
+  }
+
+  const isVideo = isVideoFile(job.file.file);
+  const progress = job.progress;
+  if (!progress) return job.status === 'compressing' && isVideo ? 'Extracting audio from video...' : null;
+
+  if (progress.modelDownload) {
+    const { loaded, total, progress: percent } = progress.modelDownload;
+    return `Downloading speech model (first run only)... ${percent}% • ${formatFileSize(loaded)} of ${formatFileSize(total)}`;
+  }
+
+  switch (progress.phase) {
+    case 'analyzing':
+      return isVideo && progress.progress > 0 ? `Extracting audio from video... ${progress.progress}%` : 'Analyzing file...';
+    case 'chunking':
+      return 'Splitting into chunks...';
+    case 'processing':
+      if (progress.totalChunks === 1) return `Compressing audio... ${Math.round(progress.progress)}%`;
+      return `${progress.currentChunk} of ${progress.totalChunks} chunks done` +
+        (progress.inFlightChunks ? ` • ${progress.inFlightChunks} in flight` : '') +
+        (progress.estimatedTimeRemaining !== undefined ? ` • ~${formatDuration(progress.estimatedTimeRemaining)} left` : '');
+    case 'transcribing':
+      return 'Transcribing...';
+    case 'combining':
+      return 'Combining results...';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Lists queued, running and finished transcription jobs with per-job controls
+ */
+export const QueuePanel: React.FC<QueuePanelProps> = ({
+  jobs,
+  maxConcurrentJobs,
+  onCancel,
+  onRetry,
+  onRemove,
+  onClearFinished,
+  onOpenResult,
+}) => {
+  if (jobs.length === 0) return null;
+
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+  const remainingCount = jobs.filter(job => job.status !== 'done' && job.status !== 'failed').length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <div>
+          <CardTitle className="text-base">Transcription Queue</CardTitle>
+          <p className="text-xs text-muted-foreground mt-1">
+            {remainingCount > 0 ? `${remainingCount} remaining` : 'All jobs finished'}
+            {` • up to ${maxConcurrentJobs} at once`}
+          </p>
+        </div>
+        {doneCount > 0 && (
+          <Button size="sm" variant="ghost" onClick={onClearFinished}>
+            Clear finished
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {jobs.map(job => {
+          const isRunning = job.status === 'compressing' || job.status === 'transcribing' || job.status === 'summarising';
+          const details = job.status === 'failed' ? job.error?.message : describeProgress(job);
+          const progress = job.progress;
+
+          return (
+            <div key={job.id} className="rounded-lg border border-border px-3 py-2">
+              <div className="flex items-center gap-3">
+                {statusIcon(job.status)}
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    {isVideoFile(job.file.file)
+                      ? <FileVideo className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                      : <FileAudio className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
+                    <span className="truncate text-sm font-medium text-foreground">{job.file.name}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">{formatFileSize(job.file.size)}</span>
+                  </div>
+                  {details && (
+                    <p className={`truncate text-xs ${job.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                      {details}
+                    </p>
+                  )}
+                </div>
+                <Badge variant={job.status === 'failed' ? 'destructive' : job.status === 'done' ? 'secondary' : 'outline'}>
+                  {STATUS_LABELS[job.status]}
+                </Badge>
+                <div className="flex shrink-0 gap-1">
+                  {job.status === 'done' && job.resultId && (
+                    <Button size="sm" variant="outline" onClick={() => onOpenResult(job.resultId!)}>
+                      Open
+                    </Button>
+                  )}
+                  {job.status === 'failed' && (
+                    <Button size="sm" variant="outline" onClick={() => onRetry(job.id)} title="Retry">
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {(job.status === 'queued' || isRunning) ? (
+                    <Button size="sm" variant="ghost" onClick={() => onCancel(job.id)} title="Cancel">
+                      <Square className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="ghost" onClick={() => onRemove(job.id)} title="Remove from queue">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {progress && (job.status === 'compressing' || job.status === 'transcribing') && (
+                <>
+                  <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-muted">
+                    <div className="h-full bg-primary transition-all" style={{ width: `${progress.progress}%` }} />
+                  </div>
+                  {progress.retry && (
+                    <div className="mt-2 text-xs text-amber-600">
+                      {progress.retry.code === 'rate_limited' ? '⏳ Rate limited' :
+                       progress.retry.code === 'network_error' ? '📡 Connection problem' :
+                       '⚠️ Temporary server error'}
+                      {` - retrying in ${progress.retry.delay}s (attempt ${progress.retry.attempt} of ${progress.retry.maxAttempts})`}
+                    </div>
+                  )}
+                  {progress.phase === 'processing' && progress.chunks && progress.chunks.length > 1 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {progress.chunks.map(chunk => (
+                        <div
+                          key={chunk.index}
+                          title={`Chunk ${chunk.index + 1}: ${chunk.status} (${formatDuration(chunk.startTime)} - ${formatDuration(chunk.startTime + chunk.duration)})`}
+                          className={`h-2 w-4 rounded-sm ${
+                            chunk.status === 'completed' ? 'bg-green-500' :
+                            chunk.status === 'processing' ? 'bg-blue-500 animate-pulse' :
+                            chunk.status === 'failed' ? 'bg-red-500' :
+                            chunk.status === 'skipped' ? 'bg-yellow-500' :
+                            'bg-muted'
+                          }`}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1 @@
+export { QueuePanel } from './QueuePanel';
@@ -5,11 +5,33 @@ import {
   Cpu, 
   Globe, 
   Thermometer,
+  Scissors,
+  Layers,
+  HardDrive,
   ExternalLink,
   AlertCircle,
-  Info
+  Info,
+  ListOrdered,
+  Server,
+  FileText,
+  Hash,
+  Languages
 } from 'lucide-react';
-import type { AppSettings } from '../../types';
+import type { AppSettings, StorageUsage, SummaryProviderConfig, TranscriptionProviderConfig } from '../../types';
+import { storage } from '../../utils/storage';
+import { formatFileSize } from '../../utils/file';
+import {
+  DEFAULT_CLASSIFICATION_MODEL,
+  DEFAULT_CUSTOM_CONTEXT_WINDOW,
+  DEFAULT_OPENAI_CONTEXT_WINDOW,
+  DEFAULT_SUMMARY_MAX_TOKENS,
+  DEFAULT_SUMMARY_MODEL,
+  DEFAULT_SUMMARY_TEMPERATURE,
+} from '../../services/summaryProvider';
+import { DEFAULT_LOCAL_MODEL, LOCAL_WHISPER_MODELS } from '../../services/localWhisperProvider';
+import { OPENAI_DIARIZE_MODEL } from '../../services/transcriptionProvider';
+import { DEFAULT_SUMMARY_LANGUAGES, getLanguageInfo, SUMMARY_LANGUAGES } from '../../utils/languages';
+import { SummaryTemplates } from '../Templates';
 
 // shadcn/ui components
 import {
@@ -52,12 +74,31 @@ export const ModernSettings: React.FC<ModernSettingsProps> = ({
   const [localSettings, setLocalSettings] = useState<AppSettings>(settings);
   const [validationError, setValidationError] = useState<string | null>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [providerError, setProviderError] = useState<string | null>(null);
+  const [summaryProviderError, setSummaryProviderError] = useState<string | null>(null);
+  const provider: TranscriptionProviderConfig = localSettings.transcriptionProvider ?? { type: 'openai' };
+  const summaryProvider: SummaryProviderConfig = localSettings.summaryProvider ?? { type: 'openai' };
+  const needsOpenAIKey = provider.type === 'openai' || summaryProvider.type === 'openai';
+  const summaryLanguages = localSettings.summaryLanguages ?? DEFAULT_SUMMARY_LANGUAGES;
 
   useEffect(() => {
     setLocalSettings(settings);
     setValidationError(null);
+    setProviderError(null);
+    setSummaryProviderError(null);
   }, [settings, isOpen]);
 
+  useEffect(() => {
+    if (isOpen) {
+      storage.getStorageUsage().then(setStorageUsage);
+    }
+  }, [isOpen]);
+
+  const storagePercent = storageUsage && storageUsage.quota > 0
+    ? Math.min(100, (storageUsage.usage / storageUsage.quota) * 100)
+    : 0;
+
   const handleInputChange = useCallback((field: keyof AppSettings, value: string | number) => {
     setLocalSettings(prev => ({ ...prev, [field]: value }));
     if (field === 'apiKey') {
@@ -65,18 +106,56 @@ export const ModernSettings: React.FC<ModernSettingsProps> = ({
     }
   }, []);
 
+  const handleProviderChange = useCallback((updates: Partial<TranscriptionProviderConfig>) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      transcriptionProvider: { ...(prev.transcriptionProvider ?? { type: 'openai' }), ...updates },
+    }));
+    setProviderError(null);
+  }, []);
+
+  const handleSummaryProviderChange = useCallback((updates: Partial<SummaryProviderConfig>) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      summaryProvider: { ...(prev.summaryProvider ?? { type: 'openai' }), ...updates },
+    }));
+    setSummaryProviderError(null);
+  }, []);
+
+  // Languages keep the order they were picked in; at least one always stays selected
+  const handleSummaryLanguageToggle = useCallback((code: string) => {
+    setLocalSettings(prev => {
+      const current = prev.summaryLanguages ?? DEFAULT_SUMMARY_LANGUAGES;
+      const next = current.includes(code) ? current.filter(selected => selected !== code) : [...current, code];
+      return next.length > 0 ? { ...prev, summaryLanguages: next } : prev;
+    });
+  }, []);
+
   const handleSave = useCallback(async () => {
-    // Validate API key
-    if (!localSettings.apiKey.trim()) {
+    // The OpenAI key is only needed while something still goes to OpenAI
+    if (needsOpenAIKey && !localSettings.apiKey.trim()) {
       setValidationError('API key is required');
       return;
     }
 
+    // A custom server needs a reachable URL - recordings are never sent to OpenAI instead
+    const providerConfig = localSettings.transcriptionProvider;
+    if (providerConfig?.type === 'custom' && !/^https?:\/\/\S+$/.test(providerConfig.baseUrl?.trim() ?? '')) {
+      setProviderError('Enter the server URL, e.g. http://localhost:8000/v1');
+      return;
+    }
+
+    const summaryConfig = localSettings.summaryProvider;
+    if (summaryConfig?.type === 'custom' && !/^https?:\/\/\S+$/.test(summaryConfig.baseUrl?.trim() ?? '')) {
+      setSummaryProviderError('Enter the server URL, e.g. http://localhost:11434/v1');
+      return;
+    }
+
     setIsValidating(true);
     
     // Simulate validation delay for better UX
     setTimeout(() => {
-      if (!onValidateApiKey(localSettings.apiKey)) {
+      if (needsOpenAIKey && !onValidateApiKey(localSettings.apiKey)) {
         setValidationError('Invalid API key format. It should start with "sk-"');
         setIsValidating(false);
         return;
@@ -86,7 +165,7 @@ export const ModernSettings: React.FC<ModernSettingsProps> = ({
       setIsValidating(false);
       onClose();
     }, 500);
-  }, [localSettings, onValidateApiKey, onSave, onClose]);
+  }, [localSettings, needsOpenAIKey, onValidateApiKey, onSave, onClose]);
 
   const handleCancel = useCallback(() => {
     setLocalSettings(settings);
@@ -132,7 +211,7 @@ export const ModernSettings: React.FC<ModernSettingsProps> = ({
               <div className="space-y-2">
                 <Label htmlFor="apiKey" className="flex items-center gap-2">
                   OpenAI API Key
-                  <Badge variant="secondary" className="text-xs">Required</Badge>
+                  <Badge variant="secondary" className="text-xs">{needsOpenAIKey ? 'Required' : 'Not used'}</Badge>
                 </Label>
                 <Input
                   id="apiKey"
@@ -182,6 +261,116 @@ export const ModernSettings: React.FC<ModernSettingsProps> = ({
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="transcription-provider" className="flex items-center gap-2">
+                  <Server className="h-4 w-4" />
+                  Transcription Provider
+                </Label>
+                <Select
+                  value={provider.type}
+                  onValueChange={(value) => handleProviderChange({ type: value as TranscriptionProviderConfig['type'] })}
+                >
+                  <SelectTrigger id="transcription-provider">
+                    <SelectValue placeholder="Select a provider" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="openai">OpenAI Whisper</SelectItem>
+                    <SelectItem value="custom">Custom server (OpenAI-compatible)</SelectItem>
+                    <SelectItem value="local">On this device (offline)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {provider.type === 'custom'
+                    ? 'Recordings are sent only to your server, e.g. faster-whisper-server or the whisper.cpp server.'
+                    : provider.type === 'local'
+                      ? 'Recordings never leave this device. Whisper runs in the browser, using the GPU where available.'
+                      : 'Recordings are sent to OpenAI for transcription.'}
+                </p>
+              </div>
+
+              {provider.type === 'local' && (
+                <div className="space-y-2 rounded-lg border border-border p-4">
+                  <Label htmlFor="local-model">Local Model</Label>
+                  <Select
+                    value={provider.localModel || DEFAULT_LOCAL_MODEL}
+                    onValueChange={(value) => handleProviderChange({ localModel: value })}
+                  >
+                    <SelectTrigger id="local-model">
+                      <SelectValue placeholder="Select a model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LOCAL_WHISPER_MODELS.map(model => (
+                        <SelectItem key={model.id} value={model.id}>
+                          <div className="flex items-center gap-2">
+                            <span>{model.label}</span>
+                            <Badge variant="outline" className="text-xs">{model.size}</Badge>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {LOCAL_WHISPER_MODELS.find(model => model.id === (provider.localModel || DEFAULT_LOCAL_MODEL))?.note}.
+                    {' '}The model is downloaded from Hugging Face the first time it's used and cached in this browser after that.
+                  </p>
+                </div>
+              )}
+
+              {provider.type === 'custom' && (
+                <div className="space-y-4 rounded-lg border border-border p-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="provider-url">Server URL</Label>
+                    <Input
+                      id="provider-url"
+                      type="url"
+                      value={provider.baseUrl || ''}
+                      onChange={(e) => handleProviderChange({ baseUrl: e.target.value })}
+                      placeholder="http://localhost:8000/v1"
+                      className={providerError ? 'border-destructive' : ''}
+                    />
+                    {providerError ? (
+                      <div className="flex items-center gap-2 text-sm text-destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        {providerError}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Base URL of the API - requests go to <code>/audio/transcriptions</code> under it
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="provider-model">Model</Label>
+                    <Input
+                      id="provider-model"
+                      type="text"
+                      value={provider.model || ''}
+                      onChange={(e) => handleProviderChange({ model: e.target.value })}
+                      placeholder="whisper-1"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      The model name your server expects, e.g. Systran/faster-whisper-large-v3. Segments that come back with a <code>speaker</code> are grouped by speaker
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="provider-key">Server API Key (Optional)</Label>
+                    <Input
+                      id="provider-key"
+                      type="password"
+                      value={provider.apiKey || ''}
+                      onChange={(e) => handleProviderChange({ apiKey: e.target.value })}
+                      placeholder="Leave empty if your server doesn't need one"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Your OpenAI key is never sent to a custom server
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {provider.type === 'openai' && (
               <div className="space-y-2">
                 <Label htmlFor="model">Transcription Model</Label>
                 <Select 
@@ -198,12 +387,21 @@ export const ModernSettings: React.FC<ModernSettingsProps> = ({
                         <Badge variant="outline" className="text-xs">Recommended</Badge>
                       </div>
                     </SelectItem>
+                    <SelectItem value={OPENAI_DIARIZE_MODEL}>
+                      <div className="flex items-center gap-2">
+                        <span>GPT-4o Transcribe Diarize</span>
+                        <Badge variant="outline" className="text-xs">Speakers</Badge>
+                      </div>
+                    </SelectItem>
                   </SelectContent>
                 </Select>
                 <p className="text-xs text-muted-foreground">
-                  OpenAI's Whisper model for high-quality speech recognition
+                  {localSettings.model === OPENAI_DIARIZE_MODEL
+                    ? 'Tells speakers apart so the transcript shows who said what. No word-level timestamps.'
+                    : "OpenAI's Whisper model for high-quality speech recognition"}
                 </p>
               </div>
+              )}
 
               <div className="space-y-2">
                 <Label htmlFor="language" className="flex items-center gap-2">
@@ -245,10 +443,323 @@ export const ModernSettings: React.FC<ModernSettingsProps> = ({
                   Controls randomness in the transcription. Lower values are more focused and deterministic.
                 </p>
               </div>
+
+              <div className="space-y-3">
+                <Label className="flex items-center gap-2">
+                  <Scissors className="h-4 w-4" />
+                  Chunk Overlap: {localSettings.chunkOverlap ?? 2}s
+                </Label>
+                <div className="px-2">
+                  <Slider
+                    value={[localSettings.chunkOverlap ?? 2]}
+                    onValueChange={(value) => handleInputChange('chunkOverlap', value[0])}
+                    max={10}
+                    min={0}
+                    step={0.5}
+                    className="w-full"
+                  />
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>None (0s)</span>
+                  <span>10s</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Audio shared between consecutive chunks of long recordings. Repeated words are removed when the chunks are stitched back together.
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="flex items-center gap-2">
+                  <Layers className="h-4 w-4" />
+                  Parallel Requests: {localSettings.concurrency ?? 3}
+                </Label>
+                <div className="px-2">
+                  <Slider
+                    value={[localSettings.concurrency ?? 3]}
+                    onValueChange={(value) => handleInputChange('concurrency', value[0])}
+                    max={6}
+                    min={1}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Sequential (1)</span>
+                  <span>Fastest (6)</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  How many chunks of a long recording are transcribed at the same time. Lower this if you hit rate limits.
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="flex items-center gap-2">
+                  <ListOrdered className="h-4 w-4" />
+                  Files at Once: {localSettings.maxConcurrentJobs ?? 2}
+                </Label>
+                <div className="px-2">
+                  <Slider
+                    value={[localSettings.maxConcurrentJobs ?? 2]}
+                    onValueChange={(value) => handleInputChange('maxConcurrentJobs', value[0])}
+                    max={4}
+                    min={1}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>One by one (1)</span>
+                  <span>4</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  How many queued files are processed at the same time. Each file still uses the parallel requests above.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Summary Model Section */}
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-center gap-2">
+                <FileText className="h-4 w-4 text-muted-foreground" />
+                <CardTitle className="text-base">Summary Model</CardTitle>
+              </div>
+              <CardDescription>
+                Choose where summaries are generated and how the model is called.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="summary-provider" className="flex items-center gap-2">
+                  <Server className="h-4 w-4" />
+                  Summary Provider
+                </Label>
+                <Select
+                  value={summaryProvider.type}
+                  onValueChange={(value) => handleSummaryProviderChange({ type: value as SummaryProviderConfig['type'] })}
+                >
+                  <SelectTrigger id="summary-provider">
+                    <SelectValue placeholder="Select a provider" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="openai">OpenAI</SelectItem>
+                    <SelectItem value="custom">Custom server (OpenAI-compatible)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {summaryProvider.type === 'custom'
+                    ? 'Transcripts are sent only to your server, e.g. Ollama, vLLM or LM Studio.'
+                    : 'Transcripts are sent to OpenAI for summarisation.'}
+                </p>
+              </div>
+
+              {summaryProvider.type === 'custom' && (
+                <div className="space-y-4 rounded-lg border border-border p-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="summary-provider-url">Server URL</Label>
+                    <Input
+                      id="summary-provider-url"
+                      type="url"
+                      value={summaryProvider.baseUrl || ''}
+                      onChange={(e) => handleSummaryProviderChange({ baseUrl: e.target.value })}
+                      placeholder="http://localhost:11434/v1"
+                      className={summaryProviderError ? 'border-destructive' : ''}
+                    />
+                    {summaryProviderError ? (
+                      <div className="flex items-center gap-2 text-sm text-destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        {summaryProviderError}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Base URL of the API - requests go to <code>/chat/completions</code> under it
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="summary-provider-key">Server API Key (Optional)</Label>
+                    <Input
+                      id="summary-provider-key"
+                      type="password"
+                      value={summaryProvider.apiKey || ''}
+                      onChange={(e) => handleSummaryProviderChange({ apiKey: e.target.value })}
+                      placeholder="Leave empty if your server doesn't need one"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Your OpenAI key is never sent to a custom server
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Languages className="h-4 w-4" />
+                  Summary Languages
+                </Label>
+                <div className="flex flex-wrap gap-1.5">
+                  {SUMMARY_LANGUAGES.map(language => (
+                    <Button
+                      key={language.code}
+                      type="button"
+                      size="sm"
+                      variant={summaryLanguages.includes(language.code) ? 'default' : 'outline'}
+                      onClick={() => handleSummaryLanguageToggle(language.code)}
+                      className="h-7 px-2 text-xs"
+                      aria-pressed={summaryLanguages.includes(language.code)}
+                    >
+                      {language.name}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Every summary is written in: {summaryLanguages.map(code => getLanguageInfo(code).name).join(', ')}.
+                  The first is used for titles and exports. Each extra language makes summaries slower and longer.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="summary-model">Model</Label>
+                <Input
+                  id="summary-model"
+                  type="text"
+                  value={summaryProvider.model || ''}
+                  onChange={(e) => handleSummaryProviderChange({ model: e.target.value })}
+                  placeholder={DEFAULT_SUMMARY_MODEL}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {summaryProvider.type === 'custom'
+                    ? 'The model name your server expects, e.g. llama3.1:8b'
+                    : `Leave empty for ${DEFAULT_SUMMARY_MODEL}, or use a cheaper model such as gpt-4.1-mini`}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="classification-model">Classification Model</Label>
+                <Input
+                  id="classification-model"
+                  type="text"
+                  value={summaryProvider.classificationModel || ''}
+                  onChange={(e) => handleSummaryProviderChange({ classificationModel: e.target.value })}
+                  placeholder={summaryProvider.type === 'custom' ? summaryProvider.model || DEFAULT_SUMMARY_MODEL : DEFAULT_CLASSIFICATION_MODEL}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {summaryProvider.type === 'custom'
+                    ? 'Decides what kind of recording each transcript is. Leave empty to use the summary model'
+                    : `Decides what kind of recording each transcript is. Leave empty for ${DEFAULT_CLASSIFICATION_MODEL}`}
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="flex items-center gap-2">
+                  <Thermometer className="h-4 w-4" />
+                  Temperature: {summaryProvider.temperature ?? DEFAULT_SUMMARY_TEMPERATURE}
+                </Label>
+                <div className="px-2">
+                  <Slider
+                    value={[summaryProvider.temperature ?? DEFAULT_SUMMARY_TEMPERATURE]}
+                    onValueChange={(value) => handleSummaryProviderChange({ temperature: value[0] })}
+                    max={2}
+                    min={0}
+                    step={0.1}
+                    className="w-full"
+                  />
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Focused (0)</span>
+                  <span>Creative (2)</span>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="summary-max-tokens" className="flex items-center gap-2">
+                  <Hash className="h-4 w-4" />
+                  Max Tokens
+                </Label>
+                <Input
+                  id="summary-max-tokens"
+                  type="number"
+                  min={256}
+                  step={256}
+                  value={summaryProvider.maxTokens ?? ''}
+                  onChange={(e) => handleSummaryProviderChange({
+                    maxTokens: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : undefined
+                  })}
+                  placeholder={DEFAULT_SUMMARY_MAX_TOKENS.toString()}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Upper limit on the length of each summary. Local models with small context windows may need less.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="summary-context-window" className="flex items-center gap-2">
+                  <Layers className="h-4 w-4" />
+                  Context Window
+                </Label>
+                <Input
+                  id="summary-context-window"
+                  type="number"
+                  min={2048}
+                  step={1024}
+                  value={summaryProvider.contextWindow ?? ''}
+                  onChange={(e) => handleSummaryProviderChange({
+                    contextWindow: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : undefined
+                  })}
+                  placeholder={(summaryProvider.type === 'custom' ? DEFAULT_CUSTOM_CONTEXT_WINDOW : DEFAULT_OPENAI_CONTEXT_WINDOW).toString()}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Tokens the model accepts in one request. Longer transcripts are summarised section by section and then combined.
+                </p>
+              </div>
             </CardContent>
           </Card>
 
+          {/* Summary Templates Section */}
+          <SummaryTemplates
+            templates={localSettings.summaryTemplates ?? []}
+            onChange={(summaryTemplates) => setLocalSettings(prev => ({ ...prev, summaryTemplates }))}
+          />
 
+          {/* Storage Section */}
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-center gap-2">
+                <HardDrive className="h-4 w-4 text-muted-foreground" />
+                <CardTitle className="text-base">Storage</CardTitle>
+              </div>
+              <CardDescription>
+                Transcripts and summaries are stored in this browser only.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {storageUsage ? (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span>{formatFileSize(storageUsage.usage)} used</span>
+                    <span className="text-muted-foreground">of {formatFileSize(storageUsage.quota)}</span>
+                  </div>
+                  <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${storagePercent > 90 ? 'bg-destructive' : 'bg-primary'}`}
+                      style={{ width: `${storagePercent}%` }}
+                    />
+                  </div>
+                  {storagePercent > 90 && (
+                    <p className="text-xs text-destructive">
+                      Storage is almost full. Delete some older recordings so new transcripts can be saved.
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  This browser doesn't report storage usage.
+                </p>
+              )}
+            </CardContent>
+          </Card>
         </div>
 
         <DialogFooter className="flex-shrink-0 gap-2">
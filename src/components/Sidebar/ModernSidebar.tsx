@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import { Search, Plus, Trash2, ChevronLeft } from 'lucide-react';
 import type { TranscriptionResult } from '../../types';
+import { getSummaryTitle, summaryMatches } from '../../utils/languages';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -61,8 +62,7 @@ function ModernSidebarContent({
       filtered = results.filter(result => 
         result.audioFileName.toLowerCase().includes(query) ||
         result.text.toLowerCase().includes(query) ||
-        (result.summary?.english.toLowerCase().includes(query)) ||
-        (result.summary?.hebrew?.toLowerCase().includes(query))
+        (result.summary !== undefined && summaryMatches(result.summary, query))
       );
     }
 
@@ -75,8 +75,9 @@ function ModernSidebarContent({
   }, []);
 
   const getResultTitle = (result: TranscriptionResult) => {
-    if (result.summary?.englishTitle) {
-      return result.summary.englishTitle;
+    const summaryTitle = getSummaryTitle(result.summary);
+    if (summaryTitle) {
+      return summaryTitle;
     }
     return result.audioFileName.replace(/\.[^/.]+$/, ''); // Remove file extension
   };
@@ -1,5 +1,6 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import type { TranscriptionResult } from '../../types';
+import { getSummaryTitle, summaryMatches } from '../../utils/languages';
 import './Sidebar.css';
 
 interface SidebarProps {
@@ -36,8 +37,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
       filtered = results.filter(result => 
         result.audioFileName.toLowerCase().includes(query) ||
         result.text.toLowerCase().includes(query) ||
-        (result.summary?.english.toLowerCase().includes(query)) ||
-        (result.summary?.hebrew?.toLowerCase().includes(query))
+        (result.summary !== undefined && summaryMatches(result.summary, query))
       );
     }
 
@@ -50,8 +50,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
   }, []);
 
   const getResultTitle = (result: TranscriptionResult) => {
-    if (result.summary?.englishTitle) {
-      return result.summary.englishTitle;
+    const summaryTitle = getSummaryTitle(result.summary);
+    if (summaryTitle) {
+      return summaryTitle;
     }
     return result.audioFileName.replace(/\.[^/.]+$/, ''); // Remove file extension
   };
@@ -10,9 +10,18 @@ import {
   CheckCircle,
   Clock,
   RefreshCw,
-  Sparkles
+  Sparkles,
+  ListTree,
+  LayoutTemplate,
+  Tag,
+  X
 } from 'lucide-react';
-import type { SummaryData } from '../../types';
+import type { ActionItem, ContentClassification, ContentType, SummaryData, SummaryProgress } from '../../types';
+import { formatDuration } from '../../utils/file';
+import { describeSummaryProgress } from '../../utils/transcriptSections';
+import { getLanguageInfo, getSummaryLanguages, isRTLLanguage } from '../../utils/languages';
+import { CONTENT_TYPE_OPTIONS, getTemplateContent } from '../../utils/summaryTemplates';
+import { ActionItemRow } from '../ActionItems';
 
 // shadcn/ui components
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -20,28 +29,53 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 
 interface ModernSummaryProps {
   summary?: SummaryData;
   isLoading?: boolean;
   isRegenerating?: boolean;
+  progress?: SummaryProgress; // long transcripts report progress section by section
+  classification?: ContentClassification;
   onRegenerate?: () => Promise<void>;
+  onChangeContentType?: (contentType: ContentType) => void; // re-summarises with the chosen type
+  onActionItemStatusChange?: (itemId: string, status: ActionItem['status']) => void;
+  onPlayAt?: (seconds: number) => void; // only when the recording is available to play
+  onCancel?: () => void;
   className?: string;
 }
 
+const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)}%`;
+
 export const ModernSummary: React.FC<ModernSummaryProps> = ({
   summary,
   isLoading = false,
   isRegenerating = false,
+  progress,
+  classification,
   onRegenerate,
+  onChangeContentType,
+  onActionItemStatusChange,
+  onPlayAt,
+  onCancel,
   className = '',
 }) => {
-  const [activeLanguage, setActiveLanguage] = useState<'english' | 'hebrew'>('english');
+  const [activeLanguage, setActiveLanguage] = useState<string | null>(null);
   const [expandedSections, setExpandedSections] = useState({
     keyPoints: true,
     insights: true,
     actionItems: true,
+    sections: false,
   });
+  const [collapsedFields, setCollapsedFields] = useState<Set<string>>(new Set()); // template sections, by key
 
   const toggleSection = useCallback((section: keyof typeof expandedSections) => {
     setExpandedSections(prev => ({
@@ -50,6 +84,14 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
     }));
   }, []);
 
+  const toggleField = useCallback((key: string) => {
+    setCollapsedFields(prev => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  }, []);
+
   const getContentTypeInfo = (contentType: SummaryData['contentType']) => {
     const types = {
       meeting: { 
@@ -113,7 +155,14 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
                   <Skeleton className="h-3 w-24" />
                 </div>
               </div>
-              <Skeleton className="h-8 w-20" />
+              {onCancel && isLoading ? (
+                <Button variant="outline" size="sm" onClick={onCancel} className="h-8 px-2 text-xs">
+                  <X className="h-3 w-3 mr-1" />
+                  Cancel
+                </Button>
+              ) : (
+                <Skeleton className="h-8 w-20" />
+              )}
             </div>
           </CardHeader>
           <CardContent>
@@ -121,9 +170,19 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
               <div className="flex items-center gap-2">
                 <RefreshCw className="h-4 w-4 animate-spin text-muted-foreground" />
                 <span className="text-sm text-muted-foreground">
-                  {isRegenerating ? 'Regenerating summary...' : 'Generating AI summary...'}
+                  {progress
+                    ? describeSummaryProgress(progress)
+                    : isRegenerating ? 'Regenerating summary...' : 'Generating AI summary...'}
                 </span>
               </div>
+              {progress && progress.totalSections > 0 && (
+                <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${progress.phase === 'merging' ? 100 : (progress.completedSections / progress.totalSections) * 100}%` }}
+                  />
+                </div>
+              )}
               <div className="space-y-2">
                 <Skeleton className="h-4 w-full" />
                 <Skeleton className="h-4 w-full" />
@@ -140,35 +199,23 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
   const ContentTypeIcon = contentTypeInfo.icon;
   const priorityVariant = getPriorityVariant(summary.priority);
 
-  const currentTitle = activeLanguage === 'english' 
-    ? summary.englishTitle 
-    : summary.hebrewTitle;
+  // Tabs follow the languages this summary was actually written in, keeping the choice when it has the same language
+  const languages = getSummaryLanguages(summary);
+  const languageCode = activeLanguage && languages.includes(activeLanguage) ? activeLanguage : languages[0];
+  const localized = summary.languages[languageCode];
 
-  const currentSummaryText = activeLanguage === 'english' 
-    ? summary.english 
-    : summary.hebrew;
+  const currentTitle = localized?.title;
+  const currentSummaryText = localized?.summary;
+  const currentKeyPoints = localized?.keyPoints ?? [];
+  const currentInsights = localized?.insights ?? [];
+  const actionItems = summary.actionItems ?? [];
+  const actionItemCount = actionItems.length;
+  const openActionItemCount = actionItems.filter(item => item.status === 'open').length;
+  const currentParticipants = localized?.participants ?? [];
+  const currentTimeline = localized?.timeline;
+  const templateContent = localized ? getTemplateContent(summary, localized) : [];
 
-  const currentKeyPoints = activeLanguage === 'english' 
-    ? summary.keyPoints 
-    : (summary.hebrewKeyPoints || []);
-
-  const currentInsights = activeLanguage === 'english' 
-    ? (summary.insights || []) 
-    : (summary.hebrewInsights || []);
-
-  const currentActionItems = activeLanguage === 'english' 
-    ? (summary.actionItems || []) 
-    : (summary.hebrewActionItems || []);
-
-  const currentParticipants = activeLanguage === 'english' 
-    ? (summary.participants || []) 
-    : (summary.hebrewParticipants || []);
-
-  const currentTimeline = activeLanguage === 'english' 
-    ? summary.timeline 
-    : summary.hebrewTimeline;
-
-  const isRTL = activeLanguage === 'hebrew';
+  const isRTL = languageCode !== undefined && isRTLLanguage(languageCode);
 
   return (
     <div className={`space-y-4 ${className}`}>
@@ -181,13 +228,62 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
               </div>
               <div className="min-w-0 flex-1 space-y-2">
                 <div className="flex items-center gap-2 flex-wrap">
-                  <CardTitle className="text-lg">
+                  <CardTitle className="text-lg" dir={currentTitle && isRTL ? 'rtl' : undefined}>
                     {currentTitle || contentTypeInfo.label}
                   </CardTitle>
                   <Badge variant="secondary" className="gap-1">
                     <Sparkles className="h-3 w-3" />
                     AI Summary
                   </Badge>
+                  {onChangeContentType ? (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" disabled={isRegenerating} className="h-6 gap-1 rounded-full px-2.5 text-xs font-semibold">
+                          <Tag className="h-3 w-3" />
+                          {contentTypeInfo.label}
+                          {classification && classification.source !== 'user' && (
+                            <span className="font-normal text-muted-foreground">{formatConfidence(classification.confidence)}</span>
+                          )}
+                          <ChevronDown className="h-3 w-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                          {classification?.source === 'user' ? 'Set by you' : classification?.source === 'keywords' ? 'Guessed from keywords' : 'Detected content type'}
+                          {' '}- pick another to re-summarise
+                        </DropdownMenuLabel>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuRadioGroup
+                          value={summary.contentType}
+                          onValueChange={(value) => {
+                            if (value !== summary.contentType) onChangeContentType(value as ContentType);
+                          }}
+                        >
+                          {CONTENT_TYPE_OPTIONS.map(option => {
+                            const label = classification?.labels.find(candidate => candidate.contentType === option.value);
+                            return (
+                              <DropdownMenuRadioItem key={option.value} value={option.value} className="justify-between gap-4 text-sm">
+                                {option.label}
+                                {label && <span className="text-xs text-muted-foreground">{formatConfidence(label.confidence)}</span>}
+                              </DropdownMenuRadioItem>
+                            );
+                          })}
+                        </DropdownMenuRadioGroup>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  ) : classification && (
+                    <Badge variant="outline" className="gap-1">
+                      <Tag className="h-3 w-3" />
+                      {contentTypeInfo.label}
+                      {classification.source !== 'user' && ` ${formatConfidence(classification.confidence)}`}
+                    </Badge>
+                  )}
+                  {summary.template && (
+                    <Badge variant="outline" className="gap-1">
+                      <LayoutTemplate className="h-3 w-3" />
+                      {summary.template.name}
+                    </Badge>
+                  )}
                   {priorityVariant && (
                     <Badge variant={priorityVariant} className="text-xs">
                       {summary.priority?.toUpperCase()} PRIORITY
@@ -202,16 +298,17 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
 
             <div className="flex items-center gap-2 flex-shrink-0">
               {/* Language Toggle */}
-              <Tabs value={activeLanguage} onValueChange={(value) => setActiveLanguage(value as 'english' | 'hebrew')}>
-                <TabsList className="h-8">
-                  <TabsTrigger value="english" className="h-6 px-2 text-xs">
-                    EN
-                  </TabsTrigger>
-                  <TabsTrigger value="hebrew" className="h-6 px-2 text-xs">
-                    עב
-                  </TabsTrigger>
-                </TabsList>
-              </Tabs>
+              {languages.length > 1 && (
+                <Tabs value={languageCode} onValueChange={setActiveLanguage}>
+                  <TabsList className="h-8">
+                    {languages.map(code => (
+                      <TabsTrigger key={code} value={code} className="h-6 px-2 text-xs" title={getLanguageInfo(code).nativeName}>
+                        {code.toUpperCase()}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+              )}
 
               {/* Regenerate Button */}
               {onRegenerate && (
@@ -238,6 +335,50 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
             </p>
           </div>
 
+          {/* Template Sections - in the order the template defines them */}
+          {templateContent.map(({ section, value }) => (
+            <Card key={section.key}>
+              <CardHeader className="pb-3">
+                <Button
+                  variant="ghost"
+                  onClick={() => toggleField(section.key)}
+                  className="flex items-center justify-between w-full p-0 h-auto hover:bg-transparent"
+                >
+                  <div className="flex items-center gap-2">
+                    <LayoutTemplate className="h-4 w-4 text-indigo-600" />
+                    <CardTitle className="text-base">{section.name}</CardTitle>
+                    {Array.isArray(value) && (
+                      <Badge variant="secondary" className="text-xs">
+                        {value.length}
+                      </Badge>
+                    )}
+                  </div>
+                  <ChevronDown 
+                    className={`h-4 w-4 transition-transform ${collapsedFields.has(section.key) ? '' : 'rotate-180'}`} 
+                  />
+                </Button>
+              </CardHeader>
+              {!collapsedFields.has(section.key) && (
+                <CardContent className="pt-0">
+                  {Array.isArray(value) ? (
+                    <ul className={`space-y-2 ${isRTL ? 'text-right' : ''}`} dir={isRTL ? 'rtl' : 'ltr'}>
+                      {value.map((item, index) => (
+                        <li key={index} className="flex items-start gap-2 text-sm">
+                          <div className="h-1.5 w-1.5 rounded-full bg-indigo-600 mt-2 flex-shrink-0" />
+                          <span className="leading-relaxed">{item}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className={`text-sm leading-relaxed whitespace-pre-wrap ${isRTL ? 'text-right' : ''}`} dir={isRTL ? 'rtl' : 'ltr'}>
+                      {value}
+                    </p>
+                  )}
+                </CardContent>
+              )}
+            </Card>
+          ))}
+
           {/* Key Points Section */}
           {currentKeyPoints.length > 0 && (
             <Card>
@@ -311,7 +452,7 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
           )}
 
           {/* Action Items Section */}
-          {currentActionItems.length > 0 && (
+          {actionItemCount > 0 && (
             <Card>
               <CardHeader className="pb-3">
                 <Button
@@ -323,7 +464,9 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
                     <CheckCircle className="h-4 w-4 text-blue-600" />
                     <CardTitle className="text-base">Action Items</CardTitle>
                     <Badge variant="secondary" className="text-xs">
-                      {currentActionItems.length}
+                      {openActionItemCount < actionItemCount
+                        ? `${openActionItemCount} of ${actionItemCount} open`
+                        : actionItemCount}
                     </Badge>
                   </div>
                   <ChevronDown 
@@ -333,12 +476,15 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
               </CardHeader>
               {expandedSections.actionItems && (
                 <CardContent className="pt-0">
-                  <ul className={`space-y-2 ${isRTL ? 'text-right' : ''}`} dir={isRTL ? 'rtl' : 'ltr'}>
-                    {currentActionItems.map((action, index) => (
-                      <li key={index} className="flex items-start gap-2 text-sm">
-                        <div className="h-1.5 w-1.5 rounded-full bg-blue-600 mt-2 flex-shrink-0" />
-                        <span className="leading-relaxed">{action}</span>
-                      </li>
+                  <ul className={`space-y-3 ${isRTL ? 'text-right' : ''}`} dir={isRTL ? 'rtl' : 'ltr'}>
+                    {actionItems.map(item => (
+                      <ActionItemRow
+                        key={item.id}
+                        item={item}
+                        languageCode={languageCode}
+                        onStatusChange={onActionItemStatusChange ? (status) => onActionItemStatusChange(item.id, status) : undefined}
+                        onPlay={onPlayAt}
+                      />
                     ))}
                   </ul>
                 </CardContent>
@@ -346,6 +492,57 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
             </Card>
           )}
 
+          {/* Section Summaries - long recordings only */}
+          {summary.sections && summary.sections.length > 0 && (
+            <Card>
+              <CardHeader className="pb-3">
+                <Button
+                  variant="ghost"
+                  onClick={() => toggleSection('sections')}
+                  className="flex items-center justify-between w-full p-0 h-auto hover:bg-transparent"
+                >
+                  <div className="flex items-center gap-2">
+                    <ListTree className="h-4 w-4 text-purple-600" />
+                    <CardTitle className="text-base">Section Summaries</CardTitle>
+                    <Badge variant="secondary" className="text-xs">
+                      {summary.sections.length}
+                    </Badge>
+                  </div>
+                  <ChevronDown 
+                    className={`h-4 w-4 transition-transform ${expandedSections.sections ? 'rotate-180' : ''}`} 
+                  />
+                </Button>
+              </CardHeader>
+              {expandedSections.sections && (
+                <CardContent className="pt-0 space-y-4" dir="ltr">
+                  {summary.sections.map(section => (
+                    <div key={section.index} className="space-y-1 border-l-2 border-purple-200 pl-3">
+                      <div className="flex items-baseline gap-2">
+                        {section.startTime !== undefined && section.endTime !== undefined && (
+                          <span className="text-xs font-mono text-muted-foreground">
+                            {formatDuration(section.startTime)} - {formatDuration(section.endTime)}
+                          </span>
+                        )}
+                        <span className="text-sm font-medium">{section.title || `Part ${section.index + 1}`}</span>
+                      </div>
+                      <p className="text-sm leading-relaxed text-muted-foreground">{section.summary}</p>
+                      {section.keyPoints.length > 0 && (
+                        <ul className="space-y-1">
+                          {section.keyPoints.map((point, index) => (
+                            <li key={index} className="flex items-start gap-2 text-sm">
+                              <div className="h-1.5 w-1.5 rounded-full bg-purple-600 mt-2 flex-shrink-0" />
+                              <span className="leading-relaxed">{point}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              )}
+            </Card>
+          )}
+
           {/* Additional Information */}
           {(currentParticipants.length > 0 || currentTimeline) && (
             <Card>
@@ -359,7 +556,7 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
                 {currentParticipants.length > 0 && (
                   <div className={`${isRTL ? 'text-right' : ''}`} dir={isRTL ? 'rtl' : 'ltr'}>
                     <span className="text-sm font-medium text-muted-foreground">
-                      {isRTL ? 'משתתפים:' : 'Participants:'}
+                      Participants:
                     </span>
                     <div className="mt-1 flex flex-wrap gap-1">
                       {currentParticipants.map((participant, index) => (
@@ -374,7 +571,7 @@ export const ModernSummary: React.FC<ModernSummaryProps> = ({
                   <div className={`${isRTL ? 'text-right' : ''}`} dir={isRTL ? 'rtl' : 'ltr'}>
                     <span className="text-sm font-medium text-muted-foreground flex items-center gap-1">
                       <Clock className="h-3 w-3" />
-                      {isRTL ? 'ציר זמן:' : 'Timeline:'}
+                      Timeline:
                     </span>
                     <p className="mt-1 text-sm leading-relaxed">{currentTimeline}</p>
                   </div>
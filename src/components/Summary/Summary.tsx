@@ -1,5 +1,8 @@
 import { useState, useCallback } from 'react';
 import type { SummaryData } from '../../types';
+import { getLanguageInfo, getSummaryLanguages, isRTLLanguage } from '../../utils/languages';
+import { getTemplateContent } from '../../utils/summaryTemplates';
+import { formatActionItem } from '../../utils/actionItems';
 import './Summary.css';
 
 interface SummaryProps {
@@ -17,12 +20,12 @@ export const Summary: React.FC<SummaryProps> = ({
   onRegenerate,
   className = '',
 }) => {
-  const [activeLanguage, setActiveLanguage] = useState<'english' | 'hebrew'>('english');
+  const [activeLanguage, setActiveLanguage] = useState<string | null>(null);
   const [showKeyPoints, setShowKeyPoints] = useState(true);
   const [showInsights, setShowInsights] = useState(true);
   const [showActionItems, setShowActionItems] = useState(true);
 
-  const handleLanguageToggle = useCallback((language: 'english' | 'hebrew') => {
+  const handleLanguageToggle = useCallback((language: string) => {
     setActiveLanguage(language);
   }, []);
 
@@ -138,6 +141,19 @@ export const Summary: React.FC<SummaryProps> = ({
     );
   }
 
+  // The toggle offers whatever languages this summary was written in
+  const languages = getSummaryLanguages(summary);
+  const languageCode = activeLanguage && languages.includes(activeLanguage) ? activeLanguage : languages[0];
+  const localized = summary.languages[languageCode];
+  const rtlClass = languageCode && isRTLLanguage(languageCode) ? 'rtl' : '';
+  const keyPoints = localized?.keyPoints ?? [];
+  const insights = localized?.insights ?? [];
+  // Tracked items show their owner and due date; done ones are left out
+  const actionItems = (summary.actionItems ?? [])
+    .filter(item => item.status === 'open')
+    .map(item => formatActionItem(item, languageCode));
+  const participants = localized?.participants ?? [];
+
   return (
     <div className={`summary-container ${className}`}>
       <div className="summary-header">
@@ -146,9 +162,9 @@ export const Summary: React.FC<SummaryProps> = ({
             {getContentTypeIcon(summary.contentType)}
           </div>
           <div className="content-type-text">
-            {(activeLanguage === 'english' && summary.englishTitle) || (activeLanguage === 'hebrew' && summary.hebrewTitle) ? (
-              <span className={`summary-title ${activeLanguage === 'hebrew' ? 'rtl' : ''}`}>
-                {activeLanguage === 'english' ? summary.englishTitle : summary.hebrewTitle}
+            {localized?.title ? (
+              <span className={`summary-title ${rtlClass}`}>
+                {localized.title}
               </span>
             ) : (
               <span className="content-type-label">
@@ -161,20 +177,20 @@ export const Summary: React.FC<SummaryProps> = ({
         </div>
         
         <div className="header-actions">
-          <div className="language-toggle">
-            <button
-              className={`language-btn ${activeLanguage === 'english' ? 'active' : ''}`}
-              onClick={() => handleLanguageToggle('english')}
-            >
-              English
-            </button>
-            <button
-              className={`language-btn ${activeLanguage === 'hebrew' ? 'active' : ''}`}
-              onClick={() => handleLanguageToggle('hebrew')}
-            >
-              עברית
-            </button>
-          </div>
+          {languages.length > 1 && (
+            <div className="language-toggle">
+              {languages.map(code => (
+                <button
+                  key={code}
+                  className={`language-btn ${code === languageCode ? 'active' : ''}`}
+                  onClick={() => handleLanguageToggle(code)}
+                  title={getLanguageInfo(code).name}
+                >
+                  {getLanguageInfo(code).nativeName}
+                </button>
+              ))}
+            </div>
+          )}
           
           {onRegenerate && (
             <div className="regenerate-toggle">
@@ -198,13 +214,32 @@ export const Summary: React.FC<SummaryProps> = ({
       </div>
 
       <div className="summary-content">
-        <div className={`summary-text ${activeLanguage === 'hebrew' ? 'rtl' : ''}`}>
-          {activeLanguage === 'english' ? summary.english : summary.hebrew}
+        <div className={`summary-text ${rtlClass}`}>
+          {localized?.summary}
         </div>
 
+        {/* Template Sections */}
+        {localized && getTemplateContent(summary, localized).map(({ section, value }) => (
+          <div key={section.key} className="expandable-section">
+            <div className="section-toggle">
+              <span>{section.name}</span>
+            </div>
+            {Array.isArray(value) ? (
+              <ul className={`section-list ${rtlClass}`}>
+                {value.map((item, index) => (
+                  <li key={index} className="section-item">
+                    {item}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className={`summary-text ${rtlClass}`}>{value}</div>
+            )}
+          </div>
+        ))}
+
         {/* Key Points Section */}
-        {((activeLanguage === 'english' && summary.keyPoints.length > 0) || 
-          (activeLanguage === 'hebrew' && summary.hebrewKeyPoints && summary.hebrewKeyPoints.length > 0)) && (
+        {keyPoints.length > 0 && (
           <div className="expandable-section">
             <button
               className="section-toggle"
@@ -225,8 +260,8 @@ export const Summary: React.FC<SummaryProps> = ({
             </button>
             
             {showKeyPoints && (
-              <ul className={`section-list ${activeLanguage === 'hebrew' ? 'rtl' : ''}`}>
-                {(activeLanguage === 'english' ? summary.keyPoints : (summary.hebrewKeyPoints || [])).map((point, index) => (
+              <ul className={`section-list ${rtlClass}`}>
+                {keyPoints.map((point, index) => (
                   <li key={index} className="section-item">
                     {point}
                   </li>
@@ -237,8 +272,7 @@ export const Summary: React.FC<SummaryProps> = ({
         )}
 
         {/* Strategic Insights Section */}
-        {((activeLanguage === 'english' && summary.insights && summary.insights.length > 0) ||
-          (activeLanguage === 'hebrew' && summary.hebrewInsights && summary.hebrewInsights.length > 0)) && (
+        {insights.length > 0 && (
           <div className="expandable-section">
             <button
               className="section-toggle"
@@ -259,8 +293,8 @@ export const Summary: React.FC<SummaryProps> = ({
             </button>
             
             {showInsights && (
-              <ul className={`section-list ${activeLanguage === 'hebrew' ? 'rtl' : ''}`}>
-                {(activeLanguage === 'english' ? (summary.insights || []) : (summary.hebrewInsights || [])).map((insight, index) => (
+              <ul className={`section-list ${rtlClass}`}>
+                {insights.map((insight, index) => (
                   <li key={index} className="section-item insight-item">
                     {insight}
                   </li>
@@ -271,8 +305,7 @@ export const Summary: React.FC<SummaryProps> = ({
         )}
 
         {/* Action Items Section */}
-        {((activeLanguage === 'english' && summary.actionItems && summary.actionItems.length > 0) ||
-          (activeLanguage === 'hebrew' && summary.hebrewActionItems && summary.hebrewActionItems.length > 0)) && (
+        {actionItems.length > 0 && (
           <div className="expandable-section">
             <button
               className="section-toggle"
@@ -293,8 +326,8 @@ export const Summary: React.FC<SummaryProps> = ({
             </button>
             
             {showActionItems && (
-              <ul className={`section-list ${activeLanguage === 'hebrew' ? 'rtl' : ''}`}>
-                {(activeLanguage === 'english' ? (summary.actionItems || []) : (summary.hebrewActionItems || [])).map((action, index) => (
+              <ul className={`section-list ${rtlClass}`}>
+                {actionItems.map((action, index) => (
                   <li key={index} className="section-item action-item">
                     {action}
                   </li>
@@ -305,28 +338,21 @@ export const Summary: React.FC<SummaryProps> = ({
         )}
 
         {/* Additional Information */}
-        {((activeLanguage === 'english' && (summary.participants || summary.timeline)) ||
-          (activeLanguage === 'hebrew' && (summary.hebrewParticipants || summary.hebrewTimeline))) && (
-          <div className={`additional-info ${activeLanguage === 'hebrew' ? 'rtl' : ''}`}>
-            {((activeLanguage === 'english' && summary.participants && summary.participants.length > 0) ||
-              (activeLanguage === 'hebrew' && summary.hebrewParticipants && summary.hebrewParticipants.length > 0)) && (
+        {(participants.length > 0 || localized?.timeline) && (
+          <div className={`additional-info ${rtlClass}`}>
+            {participants.length > 0 && (
               <div className="info-item">
-                <span className="info-label">
-                  {activeLanguage === 'hebrew' ? 'משתתפים:' : 'Participants:'}
-                </span>
+                <span className="info-label">Participants:</span>
                 <span className="info-value">
-                  {(activeLanguage === 'english' ? (summary.participants || []) : (summary.hebrewParticipants || [])).join(', ')}
+                  {participants.join(', ')}
                 </span>
               </div>
             )}
-            {((activeLanguage === 'english' && summary.timeline) ||
-              (activeLanguage === 'hebrew' && summary.hebrewTimeline)) && (
+            {localized?.timeline && (
               <div className="info-item">
-                <span className="info-label">
-                  {activeLanguage === 'hebrew' ? 'ציר זמן:' : 'Timeline:'}
-                </span>
+                <span className="info-label">Timeline:</span>
                 <span className="info-value">
-                  {activeLanguage === 'english' ? summary.timeline : summary.hebrewTimeline}
+                  {localized.timeline}
                 </span>
               </div>
             )}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { ChevronDown, LayoutTemplate, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { SummaryTemplate } from '../../types';
+import { CONTENT_TYPE_OPTIONS, TEMPLATE_PRESETS } from '../../utils/summaryTemplates';
+import { TemplateEditor } from './TemplateEditor';
+
+// shadcn/ui components
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface SummaryTemplatesProps {
+  templates: SummaryTemplate[];
+  onChange: (templates: SummaryTemplate[]) => void;
+}
+
+const BLANK_TEMPLATE: Omit<SummaryTemplate, 'id'> = {
+  name: '',
+  prompt: '',
+  sections: [{ key: '', name: '', type: 'list' }],
+  contentTypes: [],
+};
+
+/**
+ * The list of summary templates, with one being edited at a time
+ */
+export const SummaryTemplates: React.FC<SummaryTemplatesProps> = ({ templates, onChange }) => {
+  const [editing, setEditing] = useState<SummaryTemplate | null>(null);
+
+  const handleSave = (template: SummaryTemplate) => {
+    onChange(templates.some(existing => existing.id === template.id)
+      ? templates.map(existing => existing.id === template.id ? template : existing)
+      : [...templates, template]);
+    setEditing(null);
+  };
+
+  const handleDelete = (template: SummaryTemplate) => {
+    if (window.confirm(`Delete the "${template.name}" template? Summaries already written with it are kept.`)) {
+      onChange(templates.filter(existing => existing.id !== template.id));
+    }
+  };
+
+  const startNew = (base: Omit<SummaryTemplate, 'id'>) => setEditing({ ...base, id: crypto.randomUUID() });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <LayoutTemplate className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-base">Summary Templates</CardTitle>
+          </div>
+          {!editing && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="h-7 px-2 text-xs">
+                  <Plus className="h-3 w-3 mr-1" />
+                  New Template
+                  <ChevronDown className="h-3 w-3 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => startNew(BLANK_TEMPLATE)}>Blank template</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {TEMPLATE_PRESETS.map(preset => (
+                  <DropdownMenuItem key={preset.name} onClick={() => startNew(preset)}>
+                    {preset.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+        <CardDescription>
+          Your own summary formats - instructions plus the sections to fill in - used instead of the standard summary.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {editing ? (
+          <TemplateEditor template={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No templates yet. Every recording gets the standard summary.
+          </p>
+        ) : (
+          templates.map(template => (
+            <div key={template.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+              <div className="min-w-0 space-y-1">
+                <p className="text-sm font-medium truncate">{template.name}</p>
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-xs text-muted-foreground">
+                    {template.sections.map(section => section.name).join(', ')}
+                  </span>
+                  {template.contentTypes.map(type => (
+                    <Badge key={type} variant="secondary" className="text-xs">
+                      {CONTENT_TYPE_OPTIONS.find(option => option.value === type)?.label ?? type}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-shrink-0 gap-1">
+                <Button variant="ghost" size="sm" onClick={() => setEditing(template)} className="h-7 w-7 p-0">
+                  <Pencil className="h-3.5 w-3.5" />
+                  <span className="sr-only">Edit template</span>
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(template)} className="h-7 w-7 p-0">
+                  <Trash2 className="h-3.5 w-3.5" />
+                  <span className="sr-only">Delete template</span>
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
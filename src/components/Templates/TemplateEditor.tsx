@@ -0,0 +1,214 @@
+import { useState, useCallback } from 'react';
+import { AlertCircle, Plus, Trash2 } from 'lucide-react';
+import type { ContentType, SummaryTemplate, SummaryTemplateSection } from '../../types';
+import { CONTENT_TYPE_OPTIONS, getTemplateError, withSectionKeys } from '../../utils/summaryTemplates';
+import { SUMMARY_LANGUAGES } from '../../utils/languages';
+
+// shadcn/ui components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface TemplateEditorProps {
+  template: SummaryTemplate;
+  onSave: (template: SummaryTemplate) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Edits a copy of a template; nothing changes until it is saved
+ */
+export const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<SummaryTemplate>(template);
+  const [error, setError] = useState<string | null>(null);
+  const languages = draft.languages ?? [];
+
+  const update = useCallback((changes: Partial<SummaryTemplate>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setError(null);
+  }, []);
+
+  const updateSection = useCallback((index: number, changes: Partial<SummaryTemplateSection>) => {
+    setDraft(prev => ({
+      ...prev,
+      sections: prev.sections.map((section, i) => i === index ? { ...section, ...changes } : section),
+    }));
+    setError(null);
+  }, []);
+
+  const toggleContentType = (contentType: ContentType) => update({
+    contentTypes: draft.contentTypes.includes(contentType)
+      ? draft.contentTypes.filter(type => type !== contentType)
+      : [...draft.contentTypes, contentType],
+  });
+
+  const toggleLanguage = (code: string) => {
+    const next = languages.includes(code) ? languages.filter(language => language !== code) : [...languages, code];
+    update({ languages: next.length > 0 ? next : undefined });
+  };
+
+  const handleSave = () => {
+    const saved = { ...draft, name: draft.name.trim(), sections: withSectionKeys(draft.sections.map(section => ({ ...section, name: section.name.trim() }))) };
+    const problem = getTemplateError(saved);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSave(saved);
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="space-y-2">
+        <Label htmlFor="template-name">Template Name</Label>
+        <Input
+          id="template-name"
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="e.g. Discovery call"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="template-prompt">Instructions</Label>
+        <Textarea
+          id="template-prompt"
+          value={draft.prompt}
+          onChange={(e) => update({ prompt: e.target.value })}
+          placeholder="Who the summary is for and what to focus on. The transcript and the sections below are added automatically."
+          className="min-h-[80px] text-sm"
+          rows={3}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Output Sections</Label>
+        <div className="space-y-2">
+          {draft.sections.map((section, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <Input
+                value={section.name}
+                onChange={(e) => updateSection(index, { name: e.target.value })}
+                placeholder="Section name"
+                className="h-8 w-40 flex-shrink-0 text-sm"
+                aria-label="Section name"
+              />
+              <Select
+                value={section.type}
+                onValueChange={(value) => updateSection(index, { type: value as SummaryTemplateSection['type'] })}
+              >
+                <SelectTrigger className="h-8 w-24 flex-shrink-0 text-sm" aria-label="Section type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="list">List</SelectItem>
+                  <SelectItem value="text">Text</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                value={section.description ?? ''}
+                onChange={(e) => updateSection(index, { description: e.target.value || undefined })}
+                placeholder="What belongs here (optional)"
+                className="h-8 text-sm"
+                aria-label="Section description"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => update({ sections: draft.sections.filter((_, i) => i !== index) })}
+                className="h-8 w-8 p-0 flex-shrink-0"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                <span className="sr-only">Remove section</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update({ sections: [...draft.sections, { key: '', name: '', type: 'list' }] })}
+          className="h-7 px-2 text-xs"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add Section
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Every template summary also has a title and a short overview.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Use Automatically For</Label>
+        <div className="flex flex-wrap gap-1.5">
+          {CONTENT_TYPE_OPTIONS.map(option => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={draft.contentTypes.includes(option.value) ? 'default' : 'outline'}
+              onClick={() => toggleContentType(option.value)}
+              className="h-7 px-2 text-xs"
+              aria-pressed={draft.contentTypes.includes(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Recordings detected as these types get this template unless another is chosen. Leave empty to only use it when picked.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Languages</Label>
+        <div className="flex flex-wrap gap-1.5">
+          {SUMMARY_LANGUAGES.map(language => (
+            <Button
+              key={language.code}
+              type="button"
+              size="sm"
+              variant={languages.includes(language.code) ? 'default' : 'outline'}
+              onClick={() => toggleLanguage(language.code)}
+              className="h-7 px-2 text-xs"
+              aria-pressed={languages.includes(language.code)}
+            >
+              {language.name}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {languages.length > 0
+            ? 'Summaries with this template are written in these languages instead of the summary languages above.'
+            : 'None selected - the summary languages above are used.'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" size="sm" onClick={handleSave}>
+          Save Template
+        </Button>
+      </div>
+    </div>
+  );
+};
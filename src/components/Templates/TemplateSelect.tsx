@@ -0,0 +1,38 @@
+import type { SummaryTemplate } from '../../types';
+import { AUTO_TEMPLATE, STANDARD_TEMPLATE } from '../../utils/summaryTemplates';
+
+// shadcn/ui components
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface TemplateSelectProps {
+  templates: SummaryTemplate[];
+  value: string; // a template id, AUTO_TEMPLATE or STANDARD_TEMPLATE
+  onChange: (value: string) => void;
+  id?: string;
+  className?: string;
+}
+
+/**
+ * Picks how a recording is summarised: by content type, the standard summary, or a specific template
+ */
+export const TemplateSelect: React.FC<TemplateSelectProps> = ({ templates, value, onChange, id, className = '' }) => (
+  // A template deleted since it was picked falls back to automatic, as it does when summarising
+  <Select value={value === STANDARD_TEMPLATE || templates.some(template => template.id === value) ? value : AUTO_TEMPLATE} onValueChange={onChange}>
+    <SelectTrigger id={id} className={className}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={AUTO_TEMPLATE}>Automatic (by content type)</SelectItem>
+      <SelectItem value={STANDARD_TEMPLATE}>Standard summary</SelectItem>
+      {templates.map(template => (
+        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
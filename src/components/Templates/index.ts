@@ -0,0 +1,3 @@
+export { SummaryTemplates } from './SummaryTemplates';
+export { TemplateEditor } from './TemplateEditor';
+export { TemplateSelect } from './TemplateSelect';
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { 
   FileText, 
   Clock, 
@@ -13,11 +13,24 @@ import {
   FileCode,
   Volume2,
   MessageSquareText,
-  Save
+  Save,
+  Captions,
+  Film,
+  MessagesSquare,
+  Pencil,
+  Users
 } from 'lucide-react';
-import type { TranscriptionResult as TranscriptionResultType } from '../../types';
-import { formatDuration, downloadText } from '../../utils/file';
+import type { ActionItem, ContentType, SummaryProgress, SummaryTemplate, TranscriptionResult as TranscriptionResultType, TranscriptionSegment } from '../../types';
+import { formatDuration, formatTimestamp, downloadText } from '../../utils/file';
+import { formatAsSrt, formatAsVtt } from '../../utils/subtitles';
+import { storage } from '../../utils/storage';
+import { getPrimarySummary, getSummaryTitle } from '../../utils/languages';
+import { applySpeakerNamesToSummary, formatSpeakerTranscript, getSpeakerIds, getSpeakerLabels, groupSpeakerTurns, hasSpeakers } from '../../utils/speakers';
+import { getTemplateChoice, getTemplateContent } from '../../utils/summaryTemplates';
+import { getActionItemLines } from '../../utils/actionItems';
 import { ModernSummary } from '../Summary/ModernSummary';
+import { TemplateSelect } from '../Templates';
+import { TranscriptChat } from '../Chat/TranscriptChat';
 
 // shadcn/ui components
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -33,67 +46,86 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 
 interface ModernTranscriptionResultProps {
   result: TranscriptionResultType;
   onRemove?: (id: string) => void;
   isGeneratingSummary?: boolean;
+  summaryProgress?: SummaryProgress;
+  onCancelSummary?: () => void;
   isRegenerating?: boolean;
   onRegenerateSummary?: (resultId: string) => Promise<void>;
   onUpdateContext?: (resultId: string, context: string) => void;
-  onRegenerateWithContext?: (resultId: string, context: string) => Promise<void>;
+  onRegenerateWithContext?: (resultId: string, context: string, templateChoice: string) => Promise<void>;
+  onChangeContentType?: (resultId: string, contentType: ContentType) => Promise<void>;
+  onActionItemStatusChange?: (resultId: string, itemId: string, status: ActionItem['status']) => void;
+  isAnswering?: boolean;
+  onAskQuestion?: (resultId: string, question: string) => Promise<void>;
+  onClearChat?: (resultId: string) => void;
+  onRenameSpeaker?: (resultId: string, speakerId: string, name: string) => void;
+  summaryTemplates?: SummaryTemplate[]; // offered when regenerating the summary
   className?: string;
 }
 
-type ContentView = 'transcript' | 'summary' | 'context' | 'markdown' | 'email';
+type ContentView = 'transcript' | 'summary' | 'chat' | 'context' | 'markdown' | 'email';
 
 // Helper function to format summary data as Markdown
 const formatAsMarkdown = (result: TranscriptionResultType): string => {
-  const { summary } = result;
-  if (!summary) return `# ${result.audioFileName}\n\n## Transcript\n\n${result.text}`;
+  const summary = result.summary && applySpeakerNamesToSummary(result.summary, result);
+  const localized = summary && getPrimarySummary(summary);
+  const transcript = formatSpeakerTranscript(result);
+  if (!summary || !localized) return `# ${result.audioFileName}\n\n## Transcript\n\n${transcript}`;
 
-  const title = summary.englishTitle || result.audioFileName;
+  const title = localized.title || result.audioFileName;
   let markdown = `# ${title}\n\n`;
   
   if (summary.priority) {
     markdown += `**Priority:** ${summary.priority.toUpperCase()}\n\n`;
   }
   
-  markdown += `## Summary\n\n${summary.english}\n\n`;
+  markdown += `## Summary\n\n${localized.summary}\n\n`;
+
+  getTemplateContent(summary, localized).forEach(({ section, value }) => {
+    markdown += Array.isArray(value)
+      ? `## ${section.name}\n\n${value.map(item => `• ${item}`).join('\n')}\n\n`
+      : `## ${section.name}\n\n${value}\n\n`;
+  });
   
-  if (summary.keyPoints && summary.keyPoints.length > 0) {
+  if (localized.keyPoints && localized.keyPoints.length > 0) {
     markdown += `## Key Points\n\n`;
-    summary.keyPoints.forEach(point => {
+    localized.keyPoints.forEach(point => {
       markdown += `• ${point}\n`;
     });
     markdown += `\n`;
   }
   
-  if (summary.insights && summary.insights.length > 0) {
+  if (localized.insights && localized.insights.length > 0) {
     markdown += `## Strategic Insights\n\n`;
-    summary.insights.forEach(insight => {
+    localized.insights.forEach(insight => {
       markdown += `💡 ${insight}\n`;
     });
     markdown += `\n`;
   }
   
-  if (summary.actionItems && summary.actionItems.length > 0) {
+  const actionItems = getActionItemLines(summary);
+  if (actionItems.length > 0) {
     markdown += `## Action Items\n\n`;
-    summary.actionItems.forEach(action => {
-      markdown += `✓ ${action}\n`;
+    actionItems.forEach(action => {
+      markdown += `- [${action.done ? 'x' : ' '}] ${action.text}\n`;
     });
     markdown += `\n`;
   }
   
-  if (summary.participants && summary.participants.length > 0) {
-    markdown += `## Participants\n\n${summary.participants.join(', ')}\n\n`;
+  if (localized.participants && localized.participants.length > 0) {
+    markdown += `## Participants\n\n${localized.participants.join(', ')}\n\n`;
   }
   
-  if (summary.timeline) {
-    markdown += `## Timeline\n\n${summary.timeline}\n\n`;
+  if (localized.timeline) {
+    markdown += `## Timeline\n\n${localized.timeline}\n\n`;
   }
   
-  markdown += `## Full Transcript\n\n${result.text}\n\n`;
+  markdown += `## Full Transcript\n\n${transcript}\n\n`;
   markdown += `---\n*Generated: ${summary.createdAt.toLocaleString()}*`;
   
   return markdown;
@@ -101,70 +133,138 @@ const formatAsMarkdown = (result: TranscriptionResultType): string => {
 
 // Helper function to format summary data for email
 const formatAsEmail = (result: TranscriptionResultType): string => {
-  const { summary } = result;
-  if (!summary) {
+  const summary = result.summary && applySpeakerNamesToSummary(result.summary, result);
+  const localized = summary && getPrimarySummary(summary);
+  const transcript = formatSpeakerTranscript(result);
+  if (!summary || !localized) {
     return `Subject: Transcription - ${result.audioFileName}
 
 TRANSCRIPT
 ===========
 
-${result.text}
+${transcript}
 
 Generated: ${result.createdAt.toLocaleString()}`;
   }
 
-  const title = summary.englishTitle || result.audioFileName;
+  const title = localized.title || result.audioFileName;
   let email = `Subject: ${title}\n\n`;
   
   if (summary.priority) {
     email += `PRIORITY: ${summary.priority.toUpperCase()}\n\n`;
   }
   
-  email += `EXECUTIVE SUMMARY\n==================\n\n${summary.english}\n\n`;
+  email += `EXECUTIVE SUMMARY\n==================\n\n${localized.summary}\n\n`;
+
+  getTemplateContent(summary, localized).forEach(({ section, value }) => {
+    const heading = section.name.toUpperCase();
+    email += `${heading}\n${'='.repeat(heading.length)}\n\n`;
+    email += Array.isArray(value)
+      ? value.map((item, index) => `${index + 1}. ${item}\n\n`).join('')
+      : `${value}\n\n`;
+  });
   
-  if (summary.keyPoints && summary.keyPoints.length > 0) {
+  if (localized.keyPoints && localized.keyPoints.length > 0) {
     email += `KEY POINTS\n===========\n\n`;
-    summary.keyPoints.forEach((point, index) => {
+    localized.keyPoints.forEach((point, index) => {
       email += `${index + 1}. ${point}\n\n`;
     });
   }
   
-  if (summary.insights && summary.insights.length > 0) {
+  if (localized.insights && localized.insights.length > 0) {
     email += `STRATEGIC INSIGHTS\n==================\n\n`;
-    summary.insights.forEach((insight, index) => {
+    localized.insights.forEach((insight, index) => {
       email += `${index + 1}. ${insight}\n\n`;
     });
   }
   
-  if (summary.actionItems && summary.actionItems.length > 0) {
+  const actionItems = getActionItemLines(summary);
+  if (actionItems.length > 0) {
     email += `ACTION ITEMS\n=============\n\n`;
-    summary.actionItems.forEach((action, index) => {
-      email += `${index + 1}. ${action}\n\n`;
+    actionItems.forEach((action, index) => {
+      email += `${index + 1}. ${action.done ? '[Done] ' : ''}${action.text}\n\n`;
     });
   }
   
-  if (summary.participants && summary.participants.length > 0) {
-    email += `PARTICIPANTS\n=============\n\n${summary.participants.join(', ')}\n\n`;
+  if (localized.participants && localized.participants.length > 0) {
+    email += `PARTICIPANTS\n=============\n\n${localized.participants.join(', ')}\n\n`;
   }
   
-  if (summary.timeline) {
-    email += `TIMELINE\n=========\n\n${summary.timeline}\n\n`;
+  if (localized.timeline) {
+    email += `TIMELINE\n=========\n\n${localized.timeline}\n\n`;
   }
   
-  email += `FULL TRANSCRIPT\n================\n\n${result.text}\n\n`;
+  email += `FULL TRANSCRIPT\n================\n\n${transcript}\n\n`;
   email += `Generated: ${summary.createdAt.toLocaleString()}`;
   
   return email;
 };
 
+// Distinguishes speakers in the transcript, in order of first appearance
+const SPEAKER_COLORS = ['text-blue-600', 'text-emerald-600', 'text-amber-600', 'text-rose-600', 'text-violet-600', 'text-cyan-600'];
+
+/**
+ * A speaker's label that turns into a text field for renaming
+ */
+const SpeakerName: React.FC<{ label: string; colorClass: string; onRename?: (name: string) => void }> = ({ label, colorClass, onRename }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft.trim() !== label) onRename?.(draft);
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <Input
+        value={draft}
+        autoFocus
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        onClick={(e) => e.stopPropagation()}
+        placeholder="Speaker name"
+        className="h-6 w-40 px-2 text-xs"
+        dir="auto"
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onRename ? (e) => { e.stopPropagation(); setDraft(label); } : undefined}
+      disabled={!onRename}
+      title={onRename ? 'Rename this speaker everywhere' : undefined}
+      className={`group inline-flex items-center gap-1 text-xs font-semibold ${colorClass} ${onRename ? 'cursor-pointer' : 'cursor-default'}`}
+      dir="auto"
+    >
+      {label}
+      {onRename && <Pencil className="h-3 w-3 opacity-0 group-hover:opacity-60 transition-opacity" />}
+    </button>
+  );
+};
+
 export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps> = ({
   result,
   onRemove,
   isGeneratingSummary = false,
+  summaryProgress,
+  onCancelSummary,
   isRegenerating = false,
   onRegenerateSummary,
   onUpdateContext,
   onRegenerateWithContext,
+  onChangeContentType,
+  onActionItemStatusChange,
+  isAnswering = false,
+  onAskQuestion,
+  onClearChat,
+  onRenameSpeaker,
+  summaryTemplates = [],
   className = '',
 }) => {
   const [activeTab, setActiveTab] = useState<ContentView>('transcript');
@@ -172,19 +272,82 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
   const [contextText, setContextText] = useState(result.context || '');
   const [isContextSaved, setIsContextSaved] = useState(true);
   const [isRegeneratingWithContext, setIsRegeneratingWithContext] = useState(false);
+  const currentTemplateChoice = getTemplateChoice(result.summary, summaryTemplates);
+  const [templateChoice, setTemplateChoice] = useState(currentTemplateChoice);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeSegmentRef = useRef<HTMLDivElement>(null);
+  const hasStoredAudio = !!result.audio;
+
+  const speakerLabels = useMemo(() => getSpeakerLabels(result), [result]);
+  const speakerIds = useMemo(() => getSpeakerIds(result.segments), [result.segments]);
+  const speakerTurns = useMemo(
+    () => hasSpeakers(result.segments) ? groupSpeakerTurns(result.segments ?? [], speakerLabels) : [],
+    [result.segments, speakerLabels]
+  );
+  const namedSummary = useMemo(
+    () => result.summary && applySpeakerNamesToSummary(result.summary, result),
+    [result]
+  );
+  const speakerColor = (speakerId: string) =>
+    SPEAKER_COLORS[Math.max(0, speakerIds.indexOf(speakerId)) % SPEAKER_COLORS.length];
+  const handleRenameSpeaker = onRenameSpeaker
+    ? (speakerId: string) => (name: string) => onRenameSpeaker(result.id, speakerId, name)
+    : undefined;
+
+  // Load the stored recording, if any, as a blob URL for the player
+  useEffect(() => {
+    if (!hasStoredAudio) return;
+
+    let url: string | null = null;
+    let cancelled = false;
+    storage.getAudio(result.id).then(blob => {
+      if (cancelled || !blob) return;
+      url = URL.createObjectURL(blob);
+      setAudioUrl(url);
+    });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setAudioUrl(null);
+      setCurrentTime(0);
+    };
+  }, [result.id, hasStoredAudio]);
+
+  const activeSegmentId = audioUrl
+    ? result.segments?.find(segment => currentTime >= segment.start && currentTime < segment.end)?.id
+    : undefined;
+
+  // Keep the line being played in view while the recording plays
+  useEffect(() => {
+    if (activeSegmentId !== undefined && audioRef.current && !audioRef.current.paused) {
+      activeSegmentRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [activeSegmentId]);
+
+  const handleSeek = useCallback((time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.currentTime = time;
+    setCurrentTime(time);
+    audio.play().catch(err => console.error('Failed to play audio:', err));
+  }, []);
 
   const handleCopy = useCallback(async (content?: string) => {
     try {
-      const textToCopy = content || result.text;
+      const textToCopy = content || formatSpeakerTranscript(result);
       await navigator.clipboard.writeText(textToCopy);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
       console.error('Failed to copy text:', err);
     }
-  }, [result.text]);
+  }, [result]);
 
-  const handleDownload = useCallback((format: 'txt' | 'markdown' | 'email' = 'txt') => {
+  const handleDownload = useCallback((format: 'txt' | 'markdown' | 'email' | 'srt' | 'vtt' = 'txt') => {
     let content: string;
     let extension: string;
     let suffix: string;
@@ -200,15 +363,25 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
         extension = 'txt';
         suffix = 'email';
         break;
+      case 'srt':
+        content = formatAsSrt(result.segments ?? [], { speakerLabels });
+        extension = 'srt';
+        suffix = 'subtitles';
+        break;
+      case 'vtt':
+        content = formatAsVtt(result.segments ?? [], { speakerLabels });
+        extension = 'vtt';
+        suffix = 'subtitles';
+        break;
       default:
-        content = result.text;
+        content = formatSpeakerTranscript(result);
         extension = 'txt';
         suffix = 'transcription';
     }
 
     const filename = `${result.audioFileName.replace(/\.[^/.]+$/, '')}-${suffix}.${extension}`;
     downloadText(content, filename);
-  }, [result]);
+  }, [result, speakerLabels]);
 
   const handleRemove = useCallback(() => {
     if (onRemove) {
@@ -247,14 +420,34 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
           onUpdateContext(result.id, contextText);
           setIsContextSaved(true);
         }
-        await onRegenerateWithContext(result.id, contextText);
+        await onRegenerateWithContext(result.id, contextText, templateChoice);
       } catch (error) {
         console.error('Failed to regenerate summary with context:', error);
       } finally {
         setIsRegeneratingWithContext(false);
       }
     }
-  }, [onRegenerateWithContext, result.id, contextText, isContextSaved, onUpdateContext]);
+  }, [onRegenerateWithContext, result.id, contextText, templateChoice, isContextSaved, onUpdateContext]);
+
+  const renderSegment = (segment: TranscriptionSegment) => {
+    const isActive = segment.id === activeSegmentId;
+    return (
+      <div
+        key={segment.id}
+        ref={isActive ? activeSegmentRef : undefined}
+        onClick={audioUrl ? () => handleSeek(segment.start) : undefined}
+        title={audioUrl ? 'Play from here' : undefined}
+        className={`flex items-start gap-3 text-sm rounded px-1 -mx-1 transition-colors ${
+          audioUrl ? 'cursor-pointer hover:bg-muted' : ''
+        } ${isActive ? 'bg-primary/10' : ''}`}
+      >
+        <span className={`font-mono text-xs pt-0.5 flex-shrink-0 w-14 ${isActive ? 'text-primary' : 'text-muted-foreground'}`}>
+          {formatTimestamp(segment.start)}
+        </span>
+        <span className="leading-relaxed text-foreground">{segment.text}</span>
+      </div>
+    );
+  };
 
   const getStatusBadge = () => {
     if (isGeneratingSummary) {
@@ -302,12 +495,19 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
     <Card className={`w-full ${className}`}>
       {/* Card Header */}
       <CardHeader className="pb-3">
-        <div className="flex items-start justify-between">
+        <div className="flex items-start justify-between gap-4">
+          {result.video?.thumbnail && (
+            <img
+              src={result.video.thumbnail}
+              alt={`Frame from ${result.audioFileName}`}
+              className="h-20 w-auto rounded-md border border-border object-cover flex-shrink-0"
+            />
+          )}
           <div className="space-y-2 min-w-0 flex-1">
             <div className="flex items-center gap-2">
               <FileText className="h-5 w-5 text-muted-foreground flex-shrink-0" />
               <CardTitle className="text-lg leading-tight truncate">
-                {result.summary?.englishTitle || result.audioFileName}
+                {getSummaryTitle(result.summary) || result.audioFileName}
               </CardTitle>
             </div>
             
@@ -315,6 +515,20 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
               {getStatusBadge()}
               {getPriorityBadge()}
               
+              {result.video && (
+                <HoverCard>
+                  <HoverCardTrigger asChild>
+                    <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <Film className="h-3 w-3" />
+                      {result.video.duration !== undefined ? formatDuration(result.video.duration) : 'Video'}
+                    </div>
+                  </HoverCardTrigger>
+                  <HoverCardContent className="w-auto p-2">
+                    <p className="text-xs">Video duration - transcribed from its audio track</p>
+                  </HoverCardContent>
+                </HoverCard>
+              )}
+
               {result.duration && (
                 <HoverCard>
                   <HoverCardTrigger asChild>
@@ -342,7 +556,7 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
               </HoverCard>
             </div>
 
-            {result.summary?.englishTitle && (
+            {getSummaryTitle(result.summary) && (
               <CardDescription className="text-sm">
                 File: {result.audioFileName}
               </CardDescription>
@@ -366,6 +580,18 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
                 <Download className="mr-2 h-4 w-4" />
                 Download transcript
               </DropdownMenuItem>
+              {result.segments && result.segments.length > 0 && (
+                <>
+                  <DropdownMenuItem onClick={() => handleDownload('srt')}>
+                    <Captions className="mr-2 h-4 w-4" />
+                    Download SRT subtitles
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleDownload('vtt')}>
+                    <Captions className="mr-2 h-4 w-4" />
+                    Download WebVTT subtitles
+                  </DropdownMenuItem>
+                </>
+              )}
               {result.summary && (
                 <>
                   <DropdownMenuSeparator />
@@ -418,8 +644,21 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
 
       {/* Tabs Content */}
       <CardContent className="pt-0">
+        {audioUrl && (
+          <div className="mb-4 flex items-center gap-3 rounded-lg border bg-muted/50 px-3 py-2">
+            <Volume2 className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+            <audio
+              ref={audioRef}
+              controls
+              src={audioUrl}
+              className="w-full h-10"
+              onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            />
+          </div>
+        )}
+
         <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as ContentView)}>
-          <TabsList className="grid w-full grid-cols-5 mb-4">
+          <TabsList className={`grid w-full mb-4 ${onAskQuestion ? 'grid-cols-6' : 'grid-cols-5'}`}>
             <TabsTrigger value="transcript" className="flex items-center gap-2">
               <FileText className="h-4 w-4" />
               <span className="hidden sm:inline">Transcript</span>
@@ -434,6 +673,13 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
               <span className="hidden sm:inline">Summary</span>
             </TabsTrigger>
 
+            {onAskQuestion && (
+              <TabsTrigger value="chat" className="flex items-center gap-2">
+                <MessagesSquare className="h-4 w-4" />
+                <span className="hidden sm:inline">Ask</span>
+              </TabsTrigger>
+            )}
+
             <TabsTrigger 
               value="context" 
               className="flex items-center gap-2"
@@ -490,16 +736,59 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
                   </Button>
                 </div>
               </div>
-              <div className="prose prose-sm max-w-none">
-                <p className="text-sm leading-relaxed whitespace-pre-wrap text-foreground">
-                  {result.text}
-                </p>
-              </div>
-              {result.language && (
-                <div className="mt-3 pt-3 border-t">
-                  <Badge variant="secondary" className="text-xs">
-                    Language: {result.language.toUpperCase()}
-                  </Badge>
+              {speakerTurns.length > 0 ? (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 pb-2 border-b">
+                    <Users className="h-3.5 w-3.5 text-muted-foreground" />
+                    {speakerIds.map(speakerId => (
+                      <SpeakerName
+                        key={speakerId}
+                        label={speakerLabels[speakerId]}
+                        colorClass={speakerColor(speakerId)}
+                        onRename={handleRenameSpeaker?.(speakerId)}
+                      />
+                    ))}
+                  </div>
+                  {speakerTurns.map(turn => (
+                    <div key={turn.segments[0].id} className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        {turn.speaker ? (
+                          <SpeakerName
+                            label={turn.label}
+                            colorClass={speakerColor(turn.speaker)}
+                            onRename={handleRenameSpeaker?.(turn.speaker)}
+                          />
+                        ) : (
+                          <span className="text-xs font-semibold text-muted-foreground">Unknown speaker</span>
+                        )}
+                      </div>
+                      {turn.segments.map(renderSegment)}
+                    </div>
+                  ))}
+                </div>
+              ) : result.segments && result.segments.length > 0 ? (
+                <div className="space-y-1">
+                  {result.segments.map(renderSegment)}
+                </div>
+              ) : (
+                <div className="prose prose-sm max-w-none">
+                  <p className="text-sm leading-relaxed whitespace-pre-wrap text-foreground">
+                    {result.text}
+                  </p>
+                </div>
+              )}
+              {(result.language || result.confidence !== undefined) && (
+                <div className="mt-3 pt-3 border-t flex items-center gap-2">
+                  {result.language && (
+                    <Badge variant="secondary" className="text-xs">
+                      Language: {result.language.toUpperCase()}
+                    </Badge>
+                  )}
+                  {result.confidence !== undefined && (
+                    <Badge variant="outline" className="text-xs">
+                      Confidence: {Math.round(result.confidence * 100)}%
+                    </Badge>
+                  )}
                 </div>
               )}
             </div>
@@ -508,13 +797,34 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
           {/* Summary Tab */}
           <TabsContent value="summary" className="space-y-4">
             <ModernSummary
-              summary={result.summary}
+              summary={namedSummary}
               isLoading={isGeneratingSummary && !result.summary}
               isRegenerating={isRegenerating}
+              progress={summaryProgress}
+              classification={result.classification}
               onRegenerate={onRegenerateSummary ? handleRegenerateSummary : undefined}
+              onChangeContentType={onChangeContentType ? (contentType) => onChangeContentType(result.id, contentType) : undefined}
+              onActionItemStatusChange={onActionItemStatusChange ? (itemId, status) => onActionItemStatusChange(result.id, itemId, status) : undefined}
+              onPlayAt={audioUrl ? handleSeek : undefined}
+              onCancel={onCancelSummary}
             />
           </TabsContent>
 
+          {/* Chat Tab */}
+          {onAskQuestion && (
+            <TabsContent value="chat" className="space-y-4">
+              <TranscriptChat
+                messages={result.chat ?? []}
+                isAnswering={isAnswering}
+                onAsk={(question) => onAskQuestion(result.id, question)}
+                onClear={onClearChat ? () => onClearChat(result.id) : undefined}
+                onPlayCitation={audioUrl ? (citation) => {
+                  if (citation.startTime !== undefined) handleSeek(citation.startTime);
+                } : undefined}
+              />
+            </TabsContent>
+          )}
+
           {/* Context Tab */}
           <TabsContent value="context" className="space-y-4">
             <Card>
@@ -536,7 +846,7 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
                         Save
                       </Button>
                     )}
-                    {onRegenerateWithContext && contextText.trim() && (
+                    {onRegenerateWithContext && (contextText.trim() || templateChoice !== currentTemplateChoice) && (
                       <Button
                         variant="default"
                         size="sm"
@@ -584,6 +894,21 @@ export const ModernTranscriptionResult: React.FC<ModernTranscriptionResultProps>
                   </div>
                 </div>
 
+                {onRegenerateWithContext && (
+                  <div className="flex items-center gap-2">
+                    <label htmlFor="result-template" className="text-sm font-medium flex-shrink-0">
+                      Summary template
+                    </label>
+                    <TemplateSelect
+                      id="result-template"
+                      templates={summaryTemplates}
+                      value={templateChoice}
+                      onChange={setTemplateChoice}
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                )}
+
                 {contextText.trim() && (
                   <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
                     <div className="flex items-start gap-2">
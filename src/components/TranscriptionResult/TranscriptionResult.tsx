@@ -1,6 +1,10 @@
 import { useState, useCallback } from 'react';
 import type { TranscriptionResult as TranscriptionResultType } from '../../types';
 import { formatDuration, downloadText } from '../../utils/file';
+import { getTemplateContent } from '../../utils/summaryTemplates';
+import { getPrimarySummary } from '../../utils/languages';
+import { applySpeakerNamesToSummary, formatSpeakerTranscript } from '../../utils/speakers';
+import { getActionItemLines } from '../../utils/actionItems';
 import { Summary } from '../Summary';
 import './TranscriptionResult.css';
 
@@ -17,51 +21,60 @@ type ContentView = 'transcript' | 'summary' | 'markdown' | 'email';
 
 // Helper function to format summary data as Markdown
 const formatAsMarkdown = (result: TranscriptionResultType): string => {
-  const { summary } = result;
-  if (!summary) return `# ${result.audioFileName}\n\n## Transcript\n\n${result.text}`;
+  const summary = result.summary && applySpeakerNamesToSummary(result.summary, result);
+  const localized = summary && getPrimarySummary(summary);
+  const transcript = formatSpeakerTranscript(result);
+  if (!summary || !localized) return `# ${result.audioFileName}\n\n## Transcript\n\n${transcript}`;
 
-  const title = summary.englishTitle || result.audioFileName;
+  const title = localized.title || result.audioFileName;
   let markdown = `# ${title}\n\n`;
   
   if (summary.priority) {
     markdown += `**Priority:** ${summary.priority.toUpperCase()}\n\n`;
   }
   
-  markdown += `## Summary\n\n${summary.english}\n\n`;
+  markdown += `## Summary\n\n${localized.summary}\n\n`;
+
+  getTemplateContent(summary, localized).forEach(({ section, value }) => {
+    markdown += Array.isArray(value)
+      ? `## ${section.name}\n\n${value.map(item => `• ${item}`).join('\n')}\n\n`
+      : `## ${section.name}\n\n${value}\n\n`;
+  });
   
-  if (summary.keyPoints && summary.keyPoints.length > 0) {
+  if (localized.keyPoints && localized.keyPoints.length > 0) {
     markdown += `## Key Points\n\n`;
-    summary.keyPoints.forEach(point => {
+    localized.keyPoints.forEach(point => {
       markdown += `• ${point}\n`;
     });
     markdown += `\n`;
   }
   
-  if (summary.insights && summary.insights.length > 0) {
+  if (localized.insights && localized.insights.length > 0) {
     markdown += `## Strategic Insights\n\n`;
-    summary.insights.forEach(insight => {
+    localized.insights.forEach(insight => {
       markdown += `💡 ${insight}\n`;
     });
     markdown += `\n`;
   }
   
-  if (summary.actionItems && summary.actionItems.length > 0) {
+  const actionItems = getActionItemLines(summary);
+  if (actionItems.length > 0) {
     markdown += `## Action Items\n\n`;
-    summary.actionItems.forEach(action => {
-      markdown += `✓ ${action}\n`;
+    actionItems.forEach(action => {
+      markdown += `- [${action.done ? 'x' : ' '}] ${action.text}\n`;
     });
     markdown += `\n`;
   }
   
-  if (summary.participants && summary.participants.length > 0) {
-    markdown += `## Participants\n\n${summary.participants.join(', ')}\n\n`;
+  if (localized.participants && localized.participants.length > 0) {
+    markdown += `## Participants\n\n${localized.participants.join(', ')}\n\n`;
   }
   
-  if (summary.timeline) {
-    markdown += `## Timeline\n\n${summary.timeline}\n\n`;
+  if (localized.timeline) {
+    markdown += `## Timeline\n\n${localized.timeline}\n\n`;
   }
   
-  markdown += `## Full Transcript\n\n${result.text}\n\n`;
+  markdown += `## Full Transcript\n\n${transcript}\n\n`;
   markdown += `---\n*Generated: ${summary.createdAt.toLocaleString()}*`;
   
   return markdown;
@@ -69,57 +82,68 @@ const formatAsMarkdown = (result: TranscriptionResultType): string => {
 
 // Helper function to format summary data for email
 const formatAsEmail = (result: TranscriptionResultType): string => {
-  const { summary } = result;
-  if (!summary) {
+  const summary = result.summary && applySpeakerNamesToSummary(result.summary, result);
+  const localized = summary && getPrimarySummary(summary);
+  const transcript = formatSpeakerTranscript(result);
+  if (!summary || !localized) {
     return `Subject: Transcription - ${result.audioFileName}
 
 TRANSCRIPT
 ===========
 
-${result.text}
+${transcript}
 
 Generated: ${result.createdAt.toLocaleString()}`;
   }
 
-  const title = summary.englishTitle || result.audioFileName;
+  const title = localized.title || result.audioFileName;
   let email = `Subject: ${title}\n\n`;
   
   if (summary.priority) {
     email += `PRIORITY: ${summary.priority.toUpperCase()}\n\n`;
   }
   
-  email += `EXECUTIVE SUMMARY\n==================\n\n${summary.english}\n\n`;
+  email += `EXECUTIVE SUMMARY\n==================\n\n${localized.summary}\n\n`;
+
+  getTemplateContent(summary, localized).forEach(({ section, value }) => {
+    const heading = section.name.toUpperCase();
+    email += `${heading}\n${'='.repeat(heading.length)}\n\n`;
+    email += Array.isArray(value)
+      ? value.map((item, index) => `${index + 1}. ${item}\n\n`).join('')
+      : `${value}\n\n`;
+  });
   
-  if (summary.keyPoints && summary.keyPoints.length > 0) {
+  if (localized.keyPoints && localized.keyPoints.length > 0) {
     email += `KEY POINTS\n===========\n\n`;
-    summary.keyPoints.forEach((point, index) => {
+    localized.keyPoints.forEach((point, index) => {
       email += `${index + 1}. ${point}\n\n`;
     });
   }
   
-  if (summary.insights && summary.insights.length > 0) {
+  if (localized.insights && localized.insights.length > 0) {
     email += `STRATEGIC INSIGHTS\n==================\n\n`;
-    summary.insights.forEach((insight, index) => {
+    localized.insights.forEach((insight, index) => {
       email += `${index + 1}. ${insight}\n\n`;
     });
   }
   
-  if (summary.actionItems && summary.actionItems.length > 0) {
+  const actionItems = getActionItemLines(summary);
+  if (actionItems.length > 0) {
     email += `ACTION ITEMS\n=============\n\n`;
-    summary.actionItems.forEach((action, index) => {
-      email += `${index + 1}. ${action}\n\n`;
+    actionItems.forEach((action, index) => {
+      email += `${index + 1}. ${action.done ? '[Done] ' : ''}${action.text}\n\n`;
     });
   }
   
-  if (summary.participants && summary.participants.length > 0) {
-    email += `PARTICIPANTS\n=============\n\n${summary.participants.join(', ')}\n\n`;
+  if (localized.participants && localized.participants.length > 0) {
+    email += `PARTICIPANTS\n=============\n\n${localized.participants.join(', ')}\n\n`;
   }
   
-  if (summary.timeline) {
-    email += `TIMELINE\n=========\n\n${summary.timeline}\n\n`;
+  if (localized.timeline) {
+    email += `TIMELINE\n=========\n\n${localized.timeline}\n\n`;
   }
   
-  email += `FULL TRANSCRIPT\n================\n\n${result.text}\n\n`;
+  email += `FULL TRANSCRIPT\n================\n\n${transcript}\n\n`;
   email += `Generated: ${summary.createdAt.toLocaleString()}`;
   
   return email;
@@ -140,18 +164,18 @@ export const TranscriptionResult: React.FC<TranscriptionResultProps> = ({
 
   const handleCopy = useCallback(async () => {
     try {
-      await navigator.clipboard.writeText(result.text);
+      await navigator.clipboard.writeText(formatSpeakerTranscript(result));
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
       console.error('Failed to copy text:', err);
     }
-  }, [result.text]);
+  }, [result]);
 
   const handleDownload = useCallback(() => {
     const filename = `${result.audioFileName.replace(/\.[^/.]+$/, '')}-transcription.txt`;
-    downloadText(result.text, filename);
-  }, [result.text, result.audioFileName]);
+    downloadText(formatSpeakerTranscript(result), filename);
+  }, [result]);
 
   const handleCopyFormat = useCallback(async (format: 'markdown' | 'email') => {
     try {
@@ -371,7 +395,7 @@ export const TranscriptionResult: React.FC<TranscriptionResultProps> = ({
             {activeView === 'transcript' && (
               <div className="transcript-content">
                 <div className="transcript-text">
-                  {result.text}
+                  {formatSpeakerTranscript(result)}
                 </div>
                 {result.language && (
                   <div className="content-footer">
@@ -386,7 +410,7 @@ export const TranscriptionResult: React.FC<TranscriptionResultProps> = ({
             {activeView === 'summary' && (
               <div className="summary-content">
                 <Summary
-                  summary={result.summary}
+                  summary={result.summary && applySpeakerNamesToSummary(result.summary, result)}
                   isLoading={isGeneratingSummary && !result.summary}
                   isRegenerating={isRegenerating}
                   onRegenerate={onRegenerateSummary ? handleRegenerateSummary : undefined}
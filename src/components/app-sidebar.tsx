@@ -1,12 +1,14 @@
 import React, { useState, useCallback, useMemo } from 'react';
-import { Search, Plus, Trash2, Settings, X } from 'lucide-react';
+import { Search, Plus, Trash2, Settings, X, ListChecks } from 'lucide-react';
 import type { TranscriptionResult } from '../types';
+import { getSummaryTitle, summaryMatches } from '../utils/languages';
 import {
   Sidebar,
   SidebarContent,
   SidebarFooter,
   SidebarHeader,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarGroup,
@@ -24,6 +26,9 @@ interface AppSidebarProps {
   onDeleteResult: (id: string) => void;
   onClearAll: () => void;
   onOpenSettings: () => void;
+  openActionItemCount?: number;
+  isActionItemsActive?: boolean;
+  onOpenActionItems?: () => void;
 }
 
 export function AppSidebar({
@@ -34,6 +39,9 @@ export function AppSidebar({
   onDeleteResult,
   onClearAll,
   onOpenSettings,
+  openActionItemCount = 0,
+  isActionItemsActive = false,
+  onOpenActionItems,
 }: AppSidebarProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [hoveredId, setHoveredId] = useState<string | null>(null);
@@ -52,24 +60,12 @@ export function AppSidebar({
         // Search in transcription text
         const transcriptionText = result.text.toLowerCase();
         
-        // Search in summary fields
-        const englishSummary = result.summary?.english?.toLowerCase() || '';
-        const hebrewSummary = result.summary?.hebrew?.toLowerCase() || '';
-        const englishTitle = result.summary?.englishTitle?.toLowerCase() || '';
-        const hebrewTitle = result.summary?.hebrewTitle?.toLowerCase() || '';
-        
-        // Search in key points
-        const keyPoints = result.summary?.keyPoints?.join(' ').toLowerCase() || '';
-        const hebrewKeyPoints = result.summary?.hebrewKeyPoints?.join(' ').toLowerCase() || '';
+        // Search in summary titles, text and key points, in every language
+        const summaryMatch = result.summary !== undefined && summaryMatches(result.summary, query);
         
         return fileName.includes(query) ||
                transcriptionText.includes(query) ||
-               englishSummary.includes(query) ||
-               hebrewSummary.includes(query) ||
-               englishTitle.includes(query) ||
-               hebrewTitle.includes(query) ||
-               keyPoints.includes(query) ||
-               hebrewKeyPoints.includes(query);
+               summaryMatch;
       });
     }
 
@@ -82,8 +78,9 @@ export function AppSidebar({
   }, []);
 
   const getResultTitle = (result: TranscriptionResult) => {
-    if (result.summary?.englishTitle) {
-      return result.summary.englishTitle;
+    const summaryTitle = getSummaryTitle(result.summary);
+    if (summaryTitle) {
+      return summaryTitle;
     }
     return result.audioFileName.replace(/\.[^/.]+$/, ''); // Remove file extension
   };
@@ -102,6 +99,19 @@ export function AppSidebar({
               <span>New Recording</span>
             </SidebarMenuButton>
           </SidebarMenuItem>
+          {onOpenActionItems && (
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                onClick={onOpenActionItems}
+                isActive={isActionItemsActive}
+                tooltip="Open Action Items"
+              >
+                <ListChecks className="h-4 w-4" />
+                <span>Action Items</span>
+              </SidebarMenuButton>
+              {openActionItemCount > 0 && <SidebarMenuBadge>{openActionItemCount}</SidebarMenuBadge>}
+            </SidebarMenuItem>
+          )}
         </SidebarMenu>
       </SidebarHeader>
 
@@ -0,0 +1,250 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+
+export type RecorderStatus = 'idle' | 'requesting' | 'recording' | 'paused';
+
+// First supported type wins; Safari only offers mp4
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4'];
+const TIMESLICE_MS = 1000;
+const ELAPSED_TICK_MS = 250;
+const METER_FLOOR_DB = -60;
+const METER_UPDATE_MS = 100; // often enough for a meter, without re-rendering the uploader every frame
+const PCM_BLOCK_SIZE = 4096;
+
+// Posts raw PCM from the microphone in fixed-size blocks, for consumers that need samples while recording
+const PCM_CAPTURE_PROCESSOR = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Float32Array(${PCM_BLOCK_SIZE});
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        this.buffer[this.length++] = channel[i];
+        if (this.length === this.buffer.length) {
+          this.port.postMessage(this.buffer.slice());
+          this.length = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export interface RecorderStartOptions {
+  // Receives mono PCM at the capture sample rate while recording (not while paused)
+  onSamples?: (samples: Float32Array, sampleRate: number) => void;
+}
+
+const pickMimeType = (): string =>
+  PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+const extensionFor = (mimeType: string): string => {
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4')) return 'm4a';
+  return 'webm';
+};
+
+const createRecordingName = (extension: string): string => {
+  const stamp = new Date().toISOString().slice(0, 16).replace('T', '-').replace(':', '-');
+  return `recording-${stamp}.${extension}`;
+};
+
+/**
+ * Records the microphone with MediaRecorder, tracking elapsed time (excluding pauses) and input level
+ */
+export const useAudioRecorder = () => {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [elapsed, setElapsed] = useState(0); // seconds
+  const [level, setLevel] = useState(0); // 0-1
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const meterFrameRef = useRef<number | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Elapsed time is the recorded time before the last pause plus the time since the last resume
+  const recordedMsRef = useRef(0);
+  const resumedAtRef = useRef<number | null>(null);
+
+  const isSupported = typeof navigator !== 'undefined'
+    && !!navigator.mediaDevices?.getUserMedia
+    && typeof MediaRecorder !== 'undefined';
+
+  const currentElapsedMs = () =>
+    recordedMsRef.current + (resumedAtRef.current !== null ? Date.now() - resumedAtRef.current : 0);
+
+  const cleanup = useCallback(() => {
+    if (meterFrameRef.current !== null) cancelAnimationFrame(meterFrameRef.current);
+    if (timerRef.current !== null) clearInterval(timerRef.current);
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    audioContextRef.current?.close().catch(() => {});
+
+    meterFrameRef.current = null;
+    timerRef.current = null;
+    streamRef.current = null;
+    audioContextRef.current = null;
+    recorderRef.current = null;
+    chunksRef.current = [];
+    recordedMsRef.current = 0;
+    resumedAtRef.current = null;
+
+    setStatus('idle');
+    setElapsed(0);
+    setLevel(0);
+  }, []);
+
+  const startAudioGraph = async (stream: MediaStream, onSamples?: RecorderStartOptions['onSamples']) => {
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(stream);
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+    audioContextRef.current = audioContext;
+
+    if (onSamples) {
+      const moduleUrl = URL.createObjectURL(new Blob([PCM_CAPTURE_PROCESSOR], { type: 'application/javascript' }));
+      try {
+        await audioContext.audioWorklet.addModule(moduleUrl);
+      } finally {
+        URL.revokeObjectURL(moduleUrl);
+      }
+
+      const capture = new AudioWorkletNode(audioContext, 'pcm-capture');
+      capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+        if (recorderRef.current?.state === 'recording') {
+          onSamples(event.data, audioContext.sampleRate);
+        }
+      };
+      // A silent route to the destination keeps the node being processed
+      const mute = audioContext.createGain();
+      mute.gain.value = 0;
+      source.connect(capture).connect(mute).connect(audioContext.destination);
+    }
+
+    const samples = new Float32Array(analyser.fftSize);
+    let lastUpdate = -Infinity;
+    const tick = (now: number) => {
+      if (now - lastUpdate >= METER_UPDATE_MS) {
+        lastUpdate = now;
+        analyser.getFloatTimeDomainData(samples);
+        let sum = 0;
+        for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+        const db = 10 * Math.log10(sum / samples.length + 1e-10);
+        setLevel(Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB)));
+      }
+      meterFrameRef.current = requestAnimationFrame(tick);
+    };
+    tick(performance.now());
+  };
+
+  const start = useCallback(async (options: RecorderStartOptions = {}) => {
+    if (!isSupported || recorderRef.current) return;
+
+    setError(null);
+    setStatus('requesting');
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
+      streamRef.current = stream;
+
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorderRef.current = recorder;
+
+      await startAudioGraph(stream, options.onSamples);
+      recorder.start(TIMESLICE_MS);
+      resumedAtRef.current = Date.now();
+      timerRef.current = setInterval(() => setElapsed(currentElapsedMs() / 1000), ELAPSED_TICK_MS);
+
+      console.log(`🎙️ [RECORDER] Recording started (${recorder.mimeType || 'default format'})`);
+      setStatus('recording');
+    } catch (err) {
+      console.error('Failed to start recording:', err);
+      cleanup();
+      setError(err instanceof DOMException && err.name === 'NotAllowedError'
+        ? 'Microphone access was denied. Allow it in your browser settings to record.'
+        : 'Could not access a microphone.');
+    }
+  }, [isSupported, cleanup]);
+
+  const pause = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder?.state !== 'recording') return;
+
+    recorder.pause();
+    recordedMsRef.current = currentElapsedMs();
+    resumedAtRef.current = null;
+    setElapsed(recordedMsRef.current / 1000);
+    setStatus('paused');
+  }, []);
+
+  const resume = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder?.state !== 'paused') return;
+
+    recorder.resume();
+    resumedAtRef.current = Date.now();
+    setStatus('recording');
+  }, []);
+
+  /**
+   * Stops recording and resolves with the recording as a File, or null if nothing was captured
+   */
+  const stop = useCallback((): Promise<File | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return Promise.resolve(null);
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        const type = (recorder.mimeType || 'audio/webm').split(';')[0];
+        const blob = new Blob(chunksRef.current, { type });
+        const file = blob.size > 0
+          ? new File([blob], createRecordingName(extensionFor(type)), { type })
+          : null;
+
+        console.log(`🎙️ [RECORDER] Recording stopped: ${(currentElapsedMs() / 1000).toFixed(1)}s, ${(blob.size / 1024).toFixed(0)} KB`);
+        cleanup();
+        resolve(file);
+      };
+      recorder.stop();
+    });
+  }, [cleanup]);
+
+  const cancel = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    cleanup();
+  }, [cleanup]);
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(() => cancel, [cancel]);
+
+  return {
+    status,
+    elapsed,
+    level,
+    error,
+    isSupported,
+    start,
+    pause,
+    resume,
+    stop,
+    cancel,
+  };
+};
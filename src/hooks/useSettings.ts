@@ -1,14 +1,24 @@
 import { useState, useCallback, useEffect } from 'react';
 import type { AppSettings, SettingsState } from '../types';
 import { storage } from '../utils/storage';
+import { DEFAULT_SUMMARY_LANGUAGES } from '../utils/languages';
 
 const defaultSettings: AppSettings = {
   apiKey: '',
   model: 'whisper-1',
   language: undefined,
+  summaryLanguages: DEFAULT_SUMMARY_LANGUAGES,
   temperature: 0,
+  chunkOverlap: 2,
+  concurrency: 3,
+  maxConcurrentJobs: 2,
 };
 
+// The OpenAI key is only needed while transcription or summaries still go to OpenAI
+export const hasRequiredKeys = (settings: AppSettings): boolean =>
+  Boolean(settings.apiKey?.trim()) ||
+  ((settings.transcriptionProvider?.type ?? 'openai') !== 'openai' && settings.summaryProvider?.type === 'custom');
+
 export const useSettings = () => {
   const [state, setState] = useState<SettingsState>({
     isOpen: false,
@@ -23,7 +33,7 @@ export const useSettings = () => {
       setState((prev: SettingsState) => ({
         ...prev,
         settings: { ...defaultSettings, ...savedSettings },
-        isValid: Boolean(savedSettings.apiKey?.trim()),
+        isValid: hasRequiredKeys({ ...defaultSettings, ...savedSettings }),
       }));
     }
   }, []);
@@ -39,7 +49,7 @@ export const useSettings = () => {
   const updateSettings = useCallback((updates: Partial<AppSettings>) => {
     setState((prev: SettingsState) => {
       const newSettings = { ...prev.settings, ...updates };
-      const isValid = Boolean(newSettings.apiKey?.trim());
+      const isValid = hasRequiredKeys(newSettings);
       
       // Save to storage
       storage.saveSettings(newSettings);
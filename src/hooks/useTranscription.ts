@@ -1,128 +1,428 @@
-import { useState, useCallback } from 'react';
-import type { TranscriptionState, TranscriptionResult, AudioFile, TranscriptionError, BatchProgress } from '../types';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type {
+  ActionItem,
+  TranscriptionState,
+  TranscriptionResult,
+  AudioFile,
+  TranscriptionError,
+  BatchProgress,
+  TranscriptionJob,
+  TranscriptionOutput,
+  QueueJob,
+  QueueJobStatus,
+  QueueOptions,
+  SummaryOptions,
+  SummaryProgress,
+  SummaryProvider,
+  SummaryRequest,
+  TranscriptChatMessage,
+  VideoInfo,
+} from '../types';
 import { openAIService } from '../services/openai';
+import { isCancelledError, createCancelledError } from '../services/apiClient';
+import { OpenAIProvider } from '../services/transcriptionProvider';
+import { OpenAISummaryProvider } from '../services/summaryProvider';
 import { storage } from '../utils/storage';
+import { jobStore } from '../utils/jobStore';
+import { prepareAudioForStorage } from '../utils/audioProcessor';
+import { extractVideoAudio } from '../utils/videoProcessor';
+import { isVideoFile } from '../utils/file';
+import { formatSpeakerTranscript, labelSegments } from '../utils/speakers';
+import { carryOverActionItems } from '../utils/actionItems';
 
-export const useTranscription = () => {
+const ACTIVE_STATUSES: QueueJobStatus[] = ['compressing', 'transcribing', 'summarising'];
+const DEFAULT_MAX_CONCURRENT_JOBS = 2;
+
+export const isActiveJob = (job: QueueJob): boolean => ACTIVE_STATUSES.includes(job.status);
+
+// Preparing audio (compression, decoding, splitting) counts as compressing; the rest is transcribing.
+// A single-"chunk" processing phase is the compression path's FFmpeg step.
+const statusForProgress = (progress: BatchProgress): QueueJobStatus =>
+  progress.phase === 'analyzing' || progress.phase === 'chunking' || (progress.phase === 'processing' && progress.totalChunks === 1)
+    ? 'compressing'
+    : 'transcribing';
+
+interface UseTranscriptionOptions {
+  maxConcurrentJobs?: number;
+}
+
+export const useTranscription = ({ maxConcurrentJobs = DEFAULT_MAX_CONCURRENT_JOBS }: UseTranscriptionOptions = {}) => {
   const [state, setState] = useState<TranscriptionState>({
-    isLoading: false,
     error: null,
-    results: storage.getResults(),
-    currentFile: null,
-    batchProgress: undefined,
+    results: [],
+    queue: [],
   });
 
-  const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  const startedJobIdsRef = useRef(new Set<string>());
   const [regeneratingIds, setRegeneratingIds] = useState<Set<string>>(new Set());
+  const [regenerationProgress, setRegenerationProgress] = useState<Record<string, SummaryProgress>>({});
+  const [answeringIds, setAnsweringIds] = useState<Set<string>>(new Set());
+  const [savedJobs, setSavedJobs] = useState<TranscriptionJob[]>([]);
+
+  // Result records known to match what's in storage; updates replace the object, which marks it for saving
+  const storedResultsRef = useRef(new WeakSet<TranscriptionResult>());
 
-  const setCurrentFile = useCallback((file: AudioFile | null) => {
-    setState((prev: TranscriptionState) => ({ ...prev, currentFile: file, error: null }));
+  // Load saved results, and pick up batch jobs interrupted by a reload
+  useEffect(() => {
+    storage.getResults().then(results => {
+      results.forEach(result => storedResultsRef.current.add(result));
+      setState((prev: TranscriptionState) => ({ ...prev, results }));
+    }, (error: TranscriptionError) => {
+      setState((prev: TranscriptionState) => ({ ...prev, error }));
+    });
+    jobStore.getJobs().then(setSavedJobs);
+  }, []);
+
+  // Results are written one record at a time; a failed write (e.g. full quota) is shown rather than swallowed
+  const persistResult = useCallback((result: TranscriptionResult) => {
+    storage.saveResult(result).catch((error: TranscriptionError) => {
+      setState((prev: TranscriptionState) => ({ ...prev, error }));
+    });
+  }, []);
+
+  // Saving happens here rather than in state updaters, which React may run more than once
+  useEffect(() => {
+    state.results
+      .filter(result => !storedResultsRef.current.has(result))
+      .forEach(result => {
+        storedResultsRef.current.add(result);
+        persistResult(result);
+      });
+  }, [state.results, persistResult]);
+
+  const updateResult = useCallback((id: string, updates: Partial<Omit<TranscriptionResult, 'id'>>) => {
+    setState((prev: TranscriptionState) => {
+      const newResults = prev.results.map(result => 
+        result.id === id ? { ...result, ...updates } : result
+      );
+
+      return {
+        ...prev,
+        results: newResults,
+      };
+    });
+  }, []);
+
+  // Results deleted while their recording was still being prepared for storage
+  const removedResultIdsRef = useRef(new Set<string>());
+
+  // Keeps a playable copy of the recording with its result; runs in the background after transcription
+  const storeResultAudio = useCallback(async (resultId: string, file: File) => {
+    const { blob, compressed } = await prepareAudioForStorage(file);
+    // Nothing would ever clean up the recording of a result that's already gone
+    if (removedResultIdsRef.current.has(resultId)) return;
+    if (await storage.saveAudio(resultId, blob)) {
+      updateResult(resultId, { audio: { type: blob.type, size: blob.size, compressed } });
+    }
+  }, [updateResult]);
+
+  const updateQueueJob = useCallback((id: string, updates: Partial<Omit<QueueJob, 'id'>>) => {
+    setState((prev: TranscriptionState) => ({
+      ...prev,
+      queue: prev.queue.map(job => job.id === id ? { ...job, ...updates } : job),
+    }));
   }, []);
 
   const clearError = useCallback(() => {
     setState((prev: TranscriptionState) => ({ ...prev, error: null }));
   }, []);
 
-  const transcribeAudio = useCallback(async (file: File, apiKey: string, context?: string) => {
-    console.log(`🎵 Starting transcription: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`);
-    
-    setState((prev: TranscriptionState) => ({ 
-      ...prev, 
-      isLoading: true, 
-      error: null,
-      batchProgress: undefined,
-    }));
+  /**
+   * Runs one queued job to completion: transcribes the file (or takes the live transcript),
+   * saves the result and generates its summary. Failures stay on the job rather than the whole app.
+   */
+  const runJob = useCallback(async (job: QueueJob) => {
+    const { file } = job.file;
+    const context = job.context?.trim() || undefined;
+    const abortController = new AbortController();
+    abortControllersRef.current.set(job.id, abortController);
+    const { signal } = abortController;
+    let savedJobId = job.savedJobId;
+    let mediaFile = file; // what gets transcribed and stored - the audio track, for videos
+    let video: VideoInfo | undefined;
 
     try {
-      // Batch progress callback
-      const onBatchProgress = (progress: BatchProgress) => {
-        setState((prev: TranscriptionState) => ({
-          ...prev,
-          batchProgress: progress,
-        }));
-      };
+      let transcriptionResult: TranscriptionResult;
+
+      if (job.liveTranscription) {
+        console.log(`🎙️ Saving live transcription: ${file.name} (${job.liveTranscription.segments.length} segments)`);
+        updateQueueJob(job.id, { status: 'summarising', error: undefined });
+        transcriptionResult = {
+          id: crypto.randomUUID(),
+          text: job.liveTranscription.text,
+          audioFileName: file.name,
+          duration: job.liveTranscription.duration,
+          language: job.liveTranscription.language,
+          confidence: job.liveTranscription.confidence,
+          segments: job.liveTranscription.segments,
+          createdAt: new Date(),
+        };
+      } else {
+        const provider = job.provider ?? new OpenAIProvider(job.apiKey);
+        const isVideo = isVideoFile(file);
+        updateQueueJob(job.id, {
+          status: isVideo || file.size > provider.maxFileSize ? 'compressing' : 'transcribing',
+          error: undefined,
+          progress: undefined,
+        });
+
+        // Long recordings are tracked as a persisted job so a reload or retry doesn't lose finished chunks
+        const savedJob = savedJobId ? (await jobStore.getJobs()).find(saved => saved.id === savedJobId) : undefined;
+        console.log(`🎵 ${savedJob ? 'Resuming' : 'Starting'} transcription: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`);
+        video = savedJob?.video;
+
+        // Videos are transcribed (and stored) as their extracted audio track
+        if (isVideo) {
+          const extracted = await extractVideoAudio(file, signal, progress => updateQueueJob(job.id, {
+            progress: { phase: 'analyzing', currentChunk: 0, totalChunks: 1, progress },
+          })).catch(error => {
+            throw signal.aborted ? createCancelledError() : error;
+          });
+          mediaFile = extracted.audio;
+          video = extracted.video;
+        }
+
+        if (!savedJob && mediaFile.size > provider.maxFileSize) {
+          savedJobId = crypto.randomUUID();
+          await jobStore.createJob({
+            id: savedJobId,
+            fileName: file.name,
+            fileSize: mediaFile.size,
+            fileType: mediaFile.type,
+            phase: 'analyzing',
+            context,
+            chunkOverlap: job.chunkOverlap,
+            concurrency: job.concurrency,
+            video,
+            completedChunks: [],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          }, mediaFile);
+          updateQueueJob(job.id, { savedJobId });
+        }
 
-      // Transcribe the audio
-      const transcriptionResult = await openAIService.transcribeAudio(apiKey, {
-        file,
-        model: 'whisper-1',
-        response_format: 'verbose_json',
-      }, onBatchProgress);
+        // Batch progress callback
+        let lastPhase: BatchProgress['phase'] | undefined;
+        const onBatchProgress = (progress: BatchProgress) => {
+          updateQueueJob(job.id, { status: statusForProgress(progress), progress });
+          if (savedJobId && progress.phase !== lastPhase) {
+            lastPhase = progress.phase;
+            jobStore.updateJob(savedJobId, { phase: progress.phase, totalChunks: progress.totalChunks });
+          }
+        };
+
+        const chunkJobId = savedJobId;
+        transcriptionResult = await openAIService.transcribeAudio(provider, {
+          file: mediaFile,
+        }, onBatchProgress, {
+          chunkOverlap: job.chunkOverlap,
+          concurrency: job.concurrency,
+          signal,
+          completedChunks: savedJob?.completedChunks,
+          onChunkComplete: chunkJobId ? (chunk) => jobStore.addChunkResult(chunkJobId, chunk) : undefined,
+        });
+        transcriptionResult.audioFileName = job.file.name; // a resumed video job transcribes its saved audio track
+        if (video) {
+          transcriptionResult.video = video;
+        }
+
+        // The transcript is about to be saved as a result, so the persisted job has served its purpose
+        if (savedJobId) {
+          const finishedJobId = savedJobId;
+          await jobStore.deleteJob(finishedJobId);
+          setSavedJobs(prev => prev.filter(j => j.id !== finishedJobId));
+          savedJobId = undefined;
+        }
+      }
 
       // Add context to transcription result if provided
-      if (context?.trim()) {
-        transcriptionResult.context = context.trim();
+      if (context) {
+        transcriptionResult.context = context;
       }
 
       // Save transcription result
-      setState((prev: TranscriptionState) => {
-        const newResults = [transcriptionResult, ...prev.results];
-        storage.saveResults(newResults);
-        return {
-          ...prev,
-          isLoading: false,
-          results: newResults,
-          currentFile: null,
-          batchProgress: undefined,
-        };
+      storeResultAudio(transcriptionResult.id, mediaFile).catch(error => {
+        console.warn(`⚠️ Could not keep the recording for playback: ${file.name}`, error);
       });
+      setState((prev: TranscriptionState) => ({
+        ...prev,
+        results: [transcriptionResult, ...prev.results],
+        queue: prev.queue.map(queued => queued.id === job.id
+          ? { ...queued, status: 'summarising', resultId: transcriptionResult.id, progress: undefined, savedJobId: undefined }
+          : queued),
+      }));
 
       // Generate summary automatically
-      setIsGeneratingSummary(true);
-      
       try {
-        const summaryData = await openAIService.generateSummary(apiKey, {
-          text: transcriptionResult.text,
+        const summaryProvider = job.summaryProvider ?? new OpenAISummaryProvider(job.apiKey);
+        const summaryOptions: SummaryOptions = {
+          onRetry: retry => updateQueueJob(job.id, { summaryRetry: retry }),
+          onProgress: summaryProgress => updateQueueJob(job.id, { summaryProgress }),
+          signal,
+        };
+        const text = formatSpeakerTranscript(transcriptionResult);
+        const classification = await openAIService.classifyContent(summaryProvider, {
+          text,
           audioFileName: transcriptionResult.audioFileName,
-          language: transcriptionResult.language,
           context,
-        });
-        
-        console.log(`✅ Summary generated successfully`);
+        }, summaryOptions);
+        updateResult(transcriptionResult.id, { classification });
 
-        // Update the result with summary
-        setState((prev: TranscriptionState) => {
-          const newResults = prev.results.map(result => 
-            result.id === transcriptionResult.id 
-              ? { ...result, summary: summaryData, context: context || result.context } 
-              : result
-          );
-          storage.saveResults(newResults);
-          
-          return {
-            ...prev,
-            results: newResults,
-          };
-        });
+        const summaryData = await openAIService.generateSummary(summaryProvider, {
+          text,
+          segments: labelSegments(transcriptionResult),
+          audioFileName: transcriptionResult.audioFileName,
+          language: transcriptionResult.language,
+          outputLanguages: job.summaryLanguages,
+          template: job.summaryTemplate,
+          templates: job.summaryTemplates,
+          classification,
+          recordedAt: transcriptionResult.createdAt,
+          context,
+        }, summaryOptions);
 
-        setIsGeneratingSummary(false);
-        return transcriptionResult;
+        console.log(`✅ Summary generated successfully`);
+        updateResult(transcriptionResult.id, { summary: summaryData });
       } catch (summaryError) {
-        // If summary generation fails, continue with transcription result
-        console.error(`❌ Summary generation failed:`, summaryError);
-        setIsGeneratingSummary(false);
-        // Don't throw error for summary failure - transcription was successful
-        return transcriptionResult;
+        // If summary generation fails or is cancelled, keep the transcription result
+        if (isCancelledError(summaryError)) {
+          console.log(`🛑 Summary generation cancelled - keeping transcript without summary`);
+        } else {
+          console.error(`❌ Summary generation failed:`, summaryError);
+        }
       }
+
+      updateQueueJob(job.id, { status: 'done', summaryRetry: undefined, summaryProgress: undefined });
     } catch (error) {
-      const transcriptionError = error as TranscriptionError;
-      console.error(`❌ Transcription failed:`, transcriptionError.message);
+      const cancelled = isCancelledError(error);
+      if (cancelled) {
+        console.log(`🛑 Transcription cancelled - nothing was saved: ${file.name}`);
+      } else {
+        console.error(`❌ Transcription failed: ${file.name}`, (error as TranscriptionError).message);
+      }
       
-      setState((prev: TranscriptionState) => ({
-        ...prev,
-        isLoading: false,
-        error: transcriptionError,
-        batchProgress: undefined,
-      }));
-      setIsGeneratingSummary(false);
-      throw error;
+      // Cancelling discards the persisted job; a failed one keeps its chunks for a retry
+      if (savedJobId && cancelled) {
+        await jobStore.deleteJob(savedJobId);
+        savedJobId = undefined;
+      }
+      setSavedJobs(await jobStore.getJobs());
+
+      updateQueueJob(job.id, {
+        status: 'failed',
+        error: error as TranscriptionError,
+        progress: undefined,
+        summaryRetry: undefined,
+        summaryProgress: undefined,
+        savedJobId,
+      });
+    } finally {
+      abortControllersRef.current.delete(job.id);
+    }
+  }, [storeResultAudio, updateQueueJob, updateResult]);
+
+  // Start queued jobs whenever a slot is free
+  useEffect(() => {
+    const activeCount = state.queue.filter(isActiveJob).length;
+    const available = Math.max(0, maxConcurrentJobs - activeCount);
+    state.queue
+      .filter(job => job.status === 'queued' && !startedJobIdsRef.current.has(job.id))
+      .slice(0, available)
+      .forEach(job => {
+        startedJobIdsRef.current.add(job.id);
+        runJob(job);
+      });
+  }, [state.queue, maxConcurrentJobs, runJob]);
+
+  const addJobs = useCallback((jobs: Array<Omit<QueueJob, 'id' | 'status' | 'addedAt'>>) => {
+    const newJobs: QueueJob[] = jobs.map(job => ({
+      ...job,
+      id: crypto.randomUUID(),
+      status: 'queued',
+      addedAt: new Date(),
+    }));
+    setState((prev: TranscriptionState) => ({ ...prev, error: null, queue: [...prev.queue, ...newJobs] }));
+    return newJobs.map(job => job.id);
+  }, []);
+
+  /**
+   * Adds files to the transcription queue; they start as soon as a slot is free
+   */
+  const enqueueFiles = useCallback((files: AudioFile[], apiKey: string, options: QueueOptions = {}) => {
+    console.log(`📥 Queued ${files.length} file(s) for transcription`);
+    return addJobs(files.map(file => ({ ...options, file, apiKey })));
+  }, [addJobs]);
+
+  /**
+   * Queues a transcript produced live while recording, to be saved and summarised like any other result
+   */
+  const saveLiveTranscription = useCallback((
+    file: File,
+    transcription: TranscriptionOutput,
+    apiKey: string,
+    options: Pick<QueueOptions, 'context' | 'summaryProvider' | 'summaryLanguages' | 'summaryTemplate' | 'summaryTemplates'> = {}
+  ) => {
+    const [jobId] = addJobs([{
+      ...options,
+      file: { file, id: crypto.randomUUID(), name: file.name, size: file.size, url: URL.createObjectURL(file) },
+      apiKey,
+      liveTranscription: transcription,
+    }]);
+    return jobId;
+  }, [addJobs]);
+
+  /**
+   * Cancels a job: a queued one is simply dropped, a running one is stopped and marked failed so it can be retried
+   */
+  const cancelJob = useCallback((id: string) => {
+    const controller = abortControllersRef.current.get(id);
+    if (controller) {
+      console.log(`🛑 Cancelling transcription...`);
+      controller.abort();
+      return;
     }
+
+    setState((prev: TranscriptionState) => {
+      const job = prev.queue.find(queued => queued.id === id);
+      if (job?.status !== 'queued') return prev;
+      if (job.file.url) URL.revokeObjectURL(job.file.url);
+      return { ...prev, queue: prev.queue.filter(queued => queued.id !== id) };
+    });
+  }, []);
+
+  const retryJob = useCallback((id: string) => {
+    startedJobIdsRef.current.delete(id);
+    updateQueueJob(id, { status: 'queued', error: undefined, progress: undefined });
+  }, [updateQueueJob]);
+
+  // Finished and failed jobs stay listed until dismissed
+  const removeJob = useCallback((id: string) => {
+    setState((prev: TranscriptionState) => {
+      const job = prev.queue.find(queued => queued.id === id);
+      if (!job || isActiveJob(job)) return prev;
+      if (job.file.url) URL.revokeObjectURL(job.file.url);
+      startedJobIdsRef.current.delete(id);
+      return { ...prev, queue: prev.queue.filter(queued => queued.id !== id) };
+    });
+  }, []);
+
+  const clearFinishedJobs = useCallback(() => {
+    setState((prev: TranscriptionState) => {
+      const finished = prev.queue.filter(job => job.status === 'done');
+      finished.forEach(job => {
+        if (job.file.url) URL.revokeObjectURL(job.file.url);
+        startedJobIdsRef.current.delete(job.id);
+      });
+      return { ...prev, queue: prev.queue.filter(job => job.status !== 'done') };
+    });
   }, []);
 
   const removeResult = useCallback((id: string) => {
+    removedResultIdsRef.current.add(id);
+    storage.deleteResult(id);
     setState((prev: TranscriptionState) => {
       const newResults = prev.results.filter((result: TranscriptionResult) => result.id !== id);
-      storage.saveResults(newResults);
       return {
         ...prev,
         results: newResults,
@@ -130,12 +430,19 @@ export const useTranscription = () => {
     });
   }, []);
 
-    const clearResults = useCallback(() => {
+  const clearResults = useCallback(() => {
+    state.results.forEach(result => removedResultIdsRef.current.add(result.id));
     setState((prev: TranscriptionState) => ({ ...prev, results: [] }));
     storage.clearResults();
-  }, []);
+  }, [state.results]);
 
-  const regenerateSummary = useCallback(async (resultId: string, apiKey: string, context?: string) => {
+  const regenerateSummary = useCallback(async (
+    resultId: string,
+    provider: SummaryProvider,
+    context?: string,
+    outputLanguages?: string[],
+    choices: Pick<SummaryRequest, 'template' | 'templates' | 'classification'> = {}
+  ) => {
     // Find the result
     const result = state.results.find(r => r.id === resultId);
     if (!result) {
@@ -146,19 +453,33 @@ export const useTranscription = () => {
     setRegeneratingIds(prev => new Set([...prev, resultId]));
 
     try {
-      const summaryData = await openAIService.generateSummary(apiKey, {
-        text: result.text,
+      const text = formatSpeakerTranscript(result);
+      // The recording keeps its classification - a label the user chose isn't second-guessed on every regeneration
+      const classification = choices.classification ?? result.classification
+        ?? await openAIService.classifyContent(provider, { text, audioFileName: result.audioFileName, context });
+
+      const summaryData = await openAIService.generateSummary(provider, {
+        text,
+        segments: labelSegments(result),
         audioFileName: result.audioFileName,
         language: result.language,
+        outputLanguages,
+        ...choices,
+        classification,
+        recordedAt: result.createdAt,
         context,
+      }, {
+        onProgress: progress => setRegenerationProgress(prev => ({ ...prev, [resultId]: progress })),
       });
 
       // Update the result with new summary
       setState((prev: TranscriptionState) => {
-        const newResults = prev.results.map(r => 
-          r.id === resultId ? { ...r, summary: summaryData } : r
-        );
-        storage.saveResults(newResults);
+        // Action items already ticked off stay done in the new summary
+        const newResults = prev.results.map(r => r.id === resultId ? {
+          ...r,
+          summary: { ...summaryData, actionItems: carryOverActionItems(r.summary?.actionItems, summaryData.actionItems) },
+          classification,
+        } : r);
         
         return {
           ...prev,
@@ -178,18 +499,161 @@ export const useTranscription = () => {
         newSet.delete(resultId);
         return newSet;
       });
+      setRegenerationProgress(prev => {
+        const next = { ...prev };
+        delete next[resultId];
+        return next;
+      });
+    }
+  }, [state.results]);
+
+  /**
+   * Asks a question about a saved result. The question is kept in the result's chat once it has been answered,
+   * so a failed question leaves no trace in the history and can simply be asked again.
+   */
+  const askQuestion = useCallback(async (resultId: string, provider: SummaryProvider, question: string) => {
+    const result = state.results.find(r => r.id === resultId);
+    if (!result) {
+      throw new Error('Transcription result not found');
+    }
+
+    const userMessage: TranscriptChatMessage = {
+      id: crypto.randomUUID(),
+      role: 'user',
+      content: question.trim(),
+      createdAt: new Date(),
+    };
+    setAnsweringIds(prev => new Set([...prev, resultId]));
+
+    try {
+      const answer = await openAIService.askTranscript(provider, {
+        question,
+        text: formatSpeakerTranscript(result),
+        segments: labelSegments(result),
+        audioFileName: result.audioFileName,
+        context: result.context,
+        history: result.chat,
+      });
+
+      setState((prev: TranscriptionState) => {
+        const newResults = prev.results.map(r =>
+          r.id === resultId ? { ...r, chat: [...(r.chat ?? []), userMessage, answer] } : r
+        );
+
+        return {
+          ...prev,
+          results: newResults,
+        };
+      });
+      return answer;
+    } catch (error) {
+      console.error(`❌ Question about ${result.audioFileName} failed:`, error);
+      throw error;
+    } finally {
+      setAnsweringIds(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(resultId);
+        return newSet;
+      });
     }
   }, [state.results]);
 
+  const clearChat = useCallback((resultId: string) => {
+    updateResult(resultId, { chat: undefined });
+  }, [updateResult]);
+
+  /**
+   * Names a speaker across the transcript, summary and exports. An empty name goes back to "Speaker N".
+   */
+  const renameSpeaker = useCallback((resultId: string, speakerId: string, name: string) => {
+    const result = state.results.find(r => r.id === resultId);
+    if (!result) return;
+
+    const others = Object.fromEntries(Object.entries(result.speakers ?? {}).filter(([id]) => id !== speakerId));
+    const speakers = name.trim() ? { ...others, [speakerId]: name.trim() } : others;
+    updateResult(resultId, { speakers: Object.keys(speakers).length > 0 ? speakers : undefined });
+  }, [state.results, updateResult]);
+
+  const setActionItemStatus = useCallback((resultId: string, itemId: string, status: ActionItem['status']) => {
+    const summary = state.results.find(r => r.id === resultId)?.summary;
+    if (!summary?.actionItems) return;
+
+    updateResult(resultId, {
+      summary: {
+        ...summary,
+        actionItems: summary.actionItems.map(item => item.id === itemId
+          ? { ...item, status, completedAt: status === 'done' ? new Date() : undefined }
+          : item),
+      },
+    });
+  }, [state.results, updateResult]);
+
+  /**
+   * Queues a saved batch job so it continues from its last finished chunk
+   */
+  const resumeJob = useCallback(async (
+    savedJobId: string,
+    apiKey: string,
+    providers: Pick<QueueOptions, 'provider' | 'summaryProvider' | 'summaryLanguages' | 'summaryTemplates'> = {}
+  ) => {
+    const job = savedJobs.find(j => j.id === savedJobId);
+    const file = job && await jobStore.getJobFile(savedJobId);
+    if (!job || !file) {
+      // Finished or discarded elsewhere (e.g. another tab) - drop the stale banner and say why nothing happened
+      setSavedJobs(prev => prev.filter(j => j.id !== savedJobId));
+      setState((prev: TranscriptionState) => ({
+        ...prev,
+        error: {
+          message: 'This unfinished transcription could no longer be found. It may have finished or been discarded in another tab.',
+          type: 'storage_error',
+        } as TranscriptionError,
+      }));
+      return undefined;
+    }
+
+    return addJobs([{
+      file: { file, id: job.id, name: job.fileName, size: job.fileSize, url: URL.createObjectURL(file) },
+      apiKey,
+      ...providers,
+      context: job.context,
+      chunkOverlap: job.chunkOverlap,
+      concurrency: job.concurrency,
+      savedJobId,
+    }])[0];
+  }, [savedJobs, addJobs]);
+
+  const discardJob = useCallback(async (savedJobId: string) => {
+    await jobStore.deleteJob(savedJobId);
+    setSavedJobs(prev => prev.filter(j => j.id !== savedJobId));
+  }, []);
+
+  // Saved jobs already back in the queue aren't offered for resuming again
+  const pendingJobs = savedJobs.filter(saved => !state.queue.some(job => job.savedJobId === saved.id));
+  const isProcessing = state.queue.some(job => job.status === 'queued' || isActiveJob(job));
+
   return {
     ...state,
-    isGeneratingSummary,
+    isProcessing,
     regeneratingIds,
-    setCurrentFile,
-    transcribeAudio,
+    regenerationProgress,
+    answeringIds,
+    pendingJobs,
+    enqueueFiles,
+    saveLiveTranscription,
+    cancelJob,
+    retryJob,
+    removeJob,
+    clearFinishedJobs,
     removeResult,
+    updateResult,
     clearResults,
     clearError,
     regenerateSummary,
+    askQuestion,
+    clearChat,
+    renameSpeaker,
+    setActionItemStatus,
+    resumeJob,
+    discardJob,
   };
-}; 
\ No newline at end of file
+};
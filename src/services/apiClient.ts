@@ -0,0 +1,166 @@
+import type { TranscriptionError, TranscriptionErrorCode, RetryInfo } from '../types';
+
+// Overridable so the app can be pointed at a local mock server during development
+export const OPENAI_BASE_URL = import.meta.env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1';
+
+export interface RequestOptions {
+  errorPrefix: string;
+  onRetry?: (info: RetryInfo) => void;
+  signal?: AbortSignal;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504]);
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 1000; // ms
+const MAX_RETRY_DELAY = 60_000; // ms, for our own backoff
+const MAX_SERVER_RETRY_DELAY = 5 * 60_000; // ms - a longer wait than the server asks for is reported instead
+
+export const createCancelledError = (): TranscriptionError => ({
+  message: 'Cancelled by user',
+  type: 'api_error',
+  code: 'cancelled',
+  retryable: false,
+});
+
+export const isCancelledError = (error: unknown): boolean =>
+  (error as TranscriptionError | undefined)?.code === 'cancelled';
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createCancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createCancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Parses OpenAI's rate-limit reset durations ("20ms", "1s", "6m0s", "1h2m3.5s") into milliseconds
+ */
+const parseResetDuration = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)) {
+    total += parseFloat(amount) * units[unit];
+    matched = true;
+  }
+  return matched ? total : undefined;
+};
+
+/**
+ * Works out how long the server asked us to wait, from Retry-After or the rate-limit reset headers
+ */
+const getServerRetryDelay = (headers: Headers): number | undefined => {
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    if (!isNaN(Number(retryAfter))) {
+      return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const resets = [
+    parseResetDuration(headers.get('x-ratelimit-reset-requests')),
+    parseResetDuration(headers.get('x-ratelimit-reset-tokens')),
+  ].filter((delay): delay is number => delay !== undefined);
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+};
+
+const getErrorCode = (status: number, apiCode?: string): TranscriptionErrorCode => {
+  if (apiCode === 'insufficient_quota') return 'insufficient_quota';
+  if (status === 401 || apiCode === 'invalid_api_key') return 'invalid_api_key';
+  if (status === 429) return 'rate_limited';
+  if (status === 408) return 'timeout';
+  if (status >= 500 || status === 409) return 'server_error';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown_error';
+};
+
+/**
+ * Shared request layer for all API calls (OpenAI and OpenAI-compatible servers).
+ * Retries rate limits, server errors and network failures with jittered exponential backoff,
+ * honouring Retry-After and rate-limit reset headers, and throws a TranscriptionError for anything fatal.
+ */
+export async function apiRequest(url: string, init: RequestInit, options: RequestOptions): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    let error: TranscriptionError;
+    let serverDelay: number | undefined;
+
+    try {
+      const response = await fetch(url, { ...init, signal: options.signal });
+      if (response.ok) {
+        return response;
+      }
+
+      console.error(`❌ API request failed:`, response.status, response.statusText);
+      const errorData = await response.json().catch(() => ({}));
+      const code = getErrorCode(response.status, errorData.error?.code);
+      error = {
+        message: `${options.errorPrefix}: ${errorData.error?.message || response.statusText || 'Unknown error'}`,
+        type: 'api_error',
+        code,
+        status: response.status,
+        retryable: RETRYABLE_STATUSES.has(response.status) && code !== 'insufficient_quota',
+      };
+      serverDelay = getServerRetryDelay(response.headers);
+    } catch (fetchError) {
+      if (options.signal?.aborted) {
+        throw createCancelledError();
+      }
+      if (!(fetchError instanceof TypeError)) {
+        throw fetchError;
+      }
+      error = {
+        message: 'Network error. Please check your connection.',
+        type: 'network_error',
+        code: 'network_error',
+        retryable: true,
+      };
+    }
+
+    if (!error.retryable || attempt >= MAX_ATTEMPTS) {
+      throw error;
+    }
+
+    // Retrying before the server's own wait is over would only use up attempts on more of the same error
+    if (serverDelay !== undefined && serverDelay > MAX_SERVER_RETRY_DELAY) {
+      throw {
+        ...error,
+        message: `${error.message} (try again in about ${Math.ceil(serverDelay / 60_000)} minutes)`,
+        retryable: false,
+      } as TranscriptionError;
+    }
+
+    // Full jitter backoff, but never sooner than the server asked for
+    const backoff = Math.random() * Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** (attempt - 1));
+    const delay = Math.max(serverDelay ?? 0, backoff);
+
+    console.warn(`🔁 [RETRY] ${error.message} - retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 1}/${MAX_ATTEMPTS})`);
+    options.onRetry?.({
+      attempt: attempt + 1,
+      maxAttempts: MAX_ATTEMPTS,
+      delay: Math.ceil(delay / 1000),
+      code: error.code ?? 'unknown_error',
+      message: error.message,
+    });
+
+    await sleep(delay, options.signal);
+  }
+}
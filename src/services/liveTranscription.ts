@@ -0,0 +1,204 @@
+import type { TranscriptionOutput, TranscriptionProvider } from '../types';
+import { isCancelledError } from './apiClient';
+import {
+  combineChunkResults,
+  combineChunkSegments,
+  encodeWav,
+  resampleAudio,
+  TARGET_SAMPLE_RATE,
+  type AudioChunk,
+} from '../utils/audioProcessor';
+
+export interface LiveTranscriptionUpdate {
+  text: string; // stitched transcript of every window finished so far, in order
+  completedWindows: number;
+  pendingWindows: number;
+  failedWindows: number;
+}
+
+export interface LiveTranscriptionOptions {
+  windowDuration?: number; // seconds of new audio per request
+  overlapDuration?: number; // seconds repeated from the previous window, for stitching
+  onUpdate?: (update: LiveTranscriptionUpdate) => void;
+}
+
+interface LiveWindow {
+  chunk: AudioChunk;
+  status: 'pending' | 'completed' | 'failed';
+  output?: TranscriptionOutput;
+  done: Promise<void>;
+}
+
+const DEFAULT_WINDOW_DURATION = 15;
+const DEFAULT_OVERLAP_DURATION = 2;
+const MIN_FINAL_WINDOW = 0.5; // seconds - shorter leftovers aren't worth a request
+const SILENCE_RMS = 0.002; // quieter windows are skipped, since Whisper tends to invent text for silence
+
+const concatSamples = (parts: Float32Array[]): Float32Array => {
+  const output = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const isSilent = (samples: Float32Array): boolean => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / Math.max(1, samples.length)) < SILENCE_RMS;
+};
+
+/**
+ * Transcribes a recording while it is being captured.
+ * Audio is cut into rolling windows that overlap slightly; each window is sent as soon as it fills,
+ * and finished windows are stitched together with the same logic used for batch chunks.
+ */
+export class LiveTranscriptionSession {
+  private readonly provider: TranscriptionProvider;
+  private readonly windowDuration: number;
+  private readonly overlapDuration: number;
+  private readonly onUpdate?: (update: LiveTranscriptionUpdate) => void;
+  private readonly abortController = new AbortController();
+
+  private sampleRate = 0;
+  private pending: Float32Array[] = [];
+  private pendingLength = 0;
+  private carry = new Float32Array(0); // tail of the previous window, repeated at the start of the next
+  private consumedSamples = 0; // capture-rate samples already assigned to a window
+  private windows: LiveWindow[] = [];
+
+  constructor(provider: TranscriptionProvider, options: LiveTranscriptionOptions = {}) {
+    this.provider = provider;
+    this.windowDuration = options.windowDuration ?? DEFAULT_WINDOW_DURATION;
+    this.overlapDuration = options.overlapDuration ?? DEFAULT_OVERLAP_DURATION;
+    this.onUpdate = options.onUpdate;
+  }
+
+  /**
+   * Adds captured mono PCM; sends a window once enough new audio has built up
+   */
+  pushSamples(samples: Float32Array, sampleRate: number): void {
+    if (this.abortController.signal.aborted) return;
+
+    this.sampleRate = sampleRate;
+    this.pending.push(samples);
+    this.pendingLength += samples.length;
+
+    if (this.pendingLength >= this.windowDuration * sampleRate) {
+      this.cutWindow();
+    }
+  }
+
+  /**
+   * Sends whatever audio is left and waits for every window.
+   * Resolves with the consolidated transcript, or null if any window failed
+   * (the caller should then transcribe the full recording instead).
+   */
+  async finish(): Promise<TranscriptionOutput | null> {
+    if (this.sampleRate > 0 && this.pendingLength / this.sampleRate >= MIN_FINAL_WINDOW) {
+      this.cutWindow();
+    }
+
+    await Promise.all(this.windows.map(window => window.done));
+
+    if (this.windows.length === 0 || this.windows.some(window => window.status !== 'completed')) {
+      console.warn(`⚠️ [LIVE] ${this.windows.length === 0 ? 'No audio captured' : 'Some windows failed'} - live transcript is incomplete`);
+      return null;
+    }
+
+    const chunks = this.windows.map(window => window.chunk);
+    const outputs = this.windows.map(window => window.output!);
+
+    // The most common detected language wins
+    const languageCounts = new Map<string, number>();
+    outputs.forEach(output => {
+      if (output.language) languageCounts.set(output.language, (languageCounts.get(output.language) ?? 0) + 1);
+    });
+    const language = [...languageCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+    const confidences = outputs.map(output => output.confidence).filter((value): value is number => value !== undefined);
+
+    return {
+      text: combineChunkResults(chunks, outputs.map(output => output.text)),
+      segments: combineChunkSegments(chunks, outputs.map(output => output.segments)),
+      duration: this.consumedSamples / this.sampleRate,
+      language,
+      confidence: confidences.length > 0
+        ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+        : undefined,
+    };
+  }
+
+  /**
+   * Abandons the session, cancelling requests in flight
+   */
+  cancel(): void {
+    this.abortController.abort();
+  }
+
+  private cutWindow(): void {
+    const rate = this.sampleRate;
+    const fresh = concatSamples(this.pending);
+    const samples = concatSamples([this.carry, fresh]);
+    const overlap = this.carry.length / rate;
+    const startTime = this.consumedSamples / rate - overlap;
+
+    this.pending = [];
+    this.pendingLength = 0;
+    this.consumedSamples += fresh.length;
+    this.carry = samples.slice(Math.max(0, samples.length - Math.round(this.overlapDuration * rate)));
+
+    const index = this.windows.length;
+    const wav = encodeWav(resampleAudio(samples, rate), TARGET_SAMPLE_RATE);
+    const window: LiveWindow = {
+      chunk: {
+        file: new File([wav], `live_${index + 1}.wav`, { type: 'audio/wav' }),
+        index,
+        startTime,
+        duration: samples.length / rate,
+        overlap,
+      },
+      status: 'pending',
+      done: Promise.resolve(),
+    };
+    window.done = this.transcribeWindow(window, isSilent(fresh));
+    this.windows.push(window);
+
+    console.log(`🎙️ [LIVE] Window ${index + 1}: ${startTime.toFixed(1)}s - ${(startTime + window.chunk.duration).toFixed(1)}s`);
+    this.emitUpdate();
+  }
+
+  private async transcribeWindow(window: LiveWindow, silent: boolean): Promise<void> {
+    try {
+      window.output = silent
+        ? { text: '', segments: [] }
+        : await this.provider.transcribe(window.chunk.file, { signal: this.abortController.signal });
+      window.status = 'completed';
+    } catch (error) {
+      if (isCancelledError(error)) return;
+      console.error(`❌ [LIVE] Window ${window.chunk.index + 1} failed:`, error);
+      window.status = 'failed';
+    }
+    this.emitUpdate();
+  }
+
+  private emitUpdate(): void {
+    if (!this.onUpdate || this.abortController.signal.aborted) return;
+
+    // Only the unbroken run of finished windows from the start can be stitched so far
+    const firstPending = this.windows.findIndex(window => window.status === 'pending');
+    const settled = firstPending === -1 ? this.windows : this.windows.slice(0, firstPending);
+    const completed = settled.filter(window => window.status === 'completed');
+
+    this.onUpdate({
+      text: completed.length > 0
+        ? combineChunkResults(completed.map(window => window.chunk), completed.map(window => window.output!.text))
+        : '',
+      completedWindows: this.windows.filter(window => window.status === 'completed').length,
+      pendingWindows: this.windows.filter(window => window.status === 'pending').length,
+      failedWindows: this.windows.filter(window => window.status === 'failed').length,
+    });
+  }
+}
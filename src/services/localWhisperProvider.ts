@@ -0,0 +1,206 @@
+import type {
+  ModelLoadProgress,
+  TranscriptionError,
+  TranscriptionOutput,
+  TranscriptionProvider,
+  TranscriptionSegment,
+  TranscribeOptions,
+} from '../types';
+import type { WhisperWorkerRequest, WhisperWorkerResponse } from '../workers/whisper.worker';
+import { createCancelledError } from './apiClient';
+import { decodeAudioFile, resampleAudio, TARGET_SAMPLE_RATE, type DecodedAudio } from '../utils/audioProcessor';
+
+export const LOCAL_WHISPER_MODELS = [
+  { id: 'onnx-community/whisper-tiny', label: 'Whisper Tiny', size: '~40 MB', note: 'Fastest, least accurate' },
+  { id: 'onnx-community/whisper-base', label: 'Whisper Base', size: '~80 MB', note: 'Good balance for most machines' },
+  { id: 'onnx-community/whisper-small', label: 'Whisper Small', size: '~250 MB', note: 'Most accurate, needs a fast machine' },
+];
+export const DEFAULT_LOCAL_MODEL = 'onnx-community/whisper-base';
+
+// 16 kHz WAV chunks of about a minute, so long recordings still report progress as they go
+const LOCAL_MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+interface PendingRequest {
+  message: Extract<WhisperWorkerRequest, { type: 'transcribe' }>;
+  resolve: (output: TranscriptionOutput) => void;
+  reject: (error: TranscriptionError) => void;
+  onModelProgress?: (progress: ModelLoadProgress) => void;
+}
+
+/**
+ * Owns the Whisper worker shared by every local transcription.
+ * Cancelling a request that is already running means terminating the worker, so anything still queued is resent to a fresh one.
+ */
+class WhisperWorkerClient {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private activeId: number | null = null;
+  private readonly pending = new Map<number, PendingRequest>();
+
+  transcribe(
+    model: string,
+    audio: Float32Array,
+    language?: string,
+    onModelProgress?: (progress: ModelLoadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<TranscriptionOutput> {
+    if (signal?.aborted) return Promise.reject(createCancelledError());
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      const onAbort = () => this.cancel(id);
+
+      const message: PendingRequest['message'] = { type: 'transcribe', id, model, audio, language };
+      this.pending.set(id, {
+        message,
+        resolve: output => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(output);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onModelProgress,
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.getWorker().postMessage(message);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/whisper.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<WhisperWorkerResponse>) => this.handleMessage(event.data));
+      this.worker.addEventListener('error', (event) => this.failAll(event.message || 'The transcription engine crashed'));
+    }
+    return this.worker;
+  }
+
+  private handleMessage(response: WhisperWorkerResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    switch (response.type) {
+      case 'start':
+        this.activeId = response.id;
+        break;
+      case 'model-progress':
+        request.onModelProgress?.({
+          loaded: response.loaded,
+          total: response.total,
+          progress: response.total > 0 ? Math.round((response.loaded / response.total) * 100) : 0,
+        });
+        break;
+      case 'result':
+        this.finish(response.id);
+        request.resolve(parseLocalTranscription(response, request.message));
+        break;
+      case 'error':
+        console.error(`❌ [WHISPER] Local transcription failed:`, response.message);
+        this.finish(response.id);
+        request.reject({
+          message: `Local transcription failed: ${response.message}`,
+          type: 'api_error',
+          code: 'unknown_error',
+          retryable: false,
+        });
+        break;
+    }
+  }
+
+  private cancel(id: number): void {
+    const request = this.pending.get(id);
+    if (!request) return;
+    this.finish(id);
+    request.reject(createCancelledError());
+
+    if (this.activeId !== id) {
+      this.worker?.postMessage({ type: 'cancel', id } satisfies WhisperWorkerRequest);
+      return;
+    }
+
+    // Inference can't be interrupted, so the worker goes and everything else starts over
+    console.log(`🛑 [WHISPER] Stopping the running transcription`);
+    this.worker?.terminate();
+    this.worker = null;
+    this.activeId = null;
+    for (const { message } of this.pending.values()) {
+      this.getWorker().postMessage(message);
+    }
+  }
+
+  private failAll(message: string): void {
+    console.error(`❌ [WHISPER] Worker error:`, message);
+    this.worker?.terminate();
+    this.worker = null;
+    this.activeId = null;
+    const requests = [...this.pending.values()];
+    this.pending.clear();
+    requests.forEach(request => request.reject({
+      message: `Local transcription failed: ${message}`,
+      type: 'api_error',
+      code: 'unknown_error',
+      retryable: false,
+    }));
+  }
+
+  private finish(id: number): void {
+    this.pending.delete(id);
+    if (this.activeId === id) this.activeId = null;
+  }
+}
+
+const parseLocalTranscription = (
+  response: Extract<WhisperWorkerResponse, { type: 'result' }>,
+  request: PendingRequest['message']
+): TranscriptionOutput => {
+  const segments: TranscriptionSegment[] = response.chunks
+    .map((chunk, index) => ({ id: index, start: chunk.start, end: chunk.end, text: chunk.text.trim() }))
+    .filter(segment => segment.text);
+
+  return {
+    text: response.text.trim(),
+    segments,
+    duration: request.audio.length / TARGET_SAMPLE_RATE,
+    language: request.language,
+  };
+};
+
+const whisperWorker = new WhisperWorkerClient();
+
+/**
+ * Whisper running entirely in the browser (transformers.js in a Web Worker), for recordings that must not leave the device.
+ * The model is downloaded from Hugging Face on first use and cached by the browser.
+ */
+export class LocalWhisperProvider implements TranscriptionProvider {
+  readonly name = 'On-device Whisper';
+  readonly maxFileSize = LOCAL_MAX_FILE_SIZE;
+  readonly maxConcurrency = 1; // one model instance, one inference at a time
+  readonly isLocal = true;
+  private readonly model: string;
+
+  constructor(model: string = DEFAULT_LOCAL_MODEL) {
+    this.model = model;
+  }
+
+  async transcribe(file: File, options: TranscribeOptions = {}): Promise<TranscriptionOutput> {
+    let decoded: DecodedAudio;
+    try {
+      decoded = await decodeAudioFile(file, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) throw createCancelledError();
+      console.error(`❌ [WHISPER] Could not decode ${file.name}:`, error);
+      throw {
+        message: `Could not read the audio in ${file.name}`,
+        type: 'file_error',
+      } as TranscriptionError;
+    }
+
+    const { samples, sampleRate } = decoded;
+    const audio = sampleRate === TARGET_SAMPLE_RATE ? samples : resampleAudio(samples, sampleRate);
+
+    console.log(`💻 [WHISPER] Transcribing ${file.name} on this device (${(audio.length / TARGET_SAMPLE_RATE).toFixed(1)}s, ${this.model})`);
+    return whisperWorker.transcribe(this.model, audio, options.language, options.onModelProgress, options.signal);
+  }
+}
@@ -1,25 +1,40 @@
-import type { TranscriptionRequest, TranscriptionResult, TranscriptionError, SummaryRequest, SummaryData, BatchProgress } from '../types';
-import { chunkAudioFile, combineChunkResults, estimateProcessingTime } from '../utils/audioProcessor';
+import type { TranscriptionRequest, TranscriptionResult, TranscriptionError, TranscriptionOutput, TranscriptionProvider, SummaryProvider, SummaryRequest, SummaryData, CompletionOptions, ContentClassification, ContentLabel, ContentType, BatchProgress, BatchOptions, ChunkProgress, RetryInfo, SummaryOptions, ModelLoadProgress, ChatMessage, JsonSchemaFormat, SummarySection, SummaryTemplate, TranscriptQuestion, TranscriptChatMessage } from '../types';
+import { createCancelledError, isCancelledError } from './apiClient';
+import { calculateConfidence } from './transcriptionProvider';
+import { chunkAudioFile, combineChunkResults, combineChunkSegments, estimateProcessingTime, mountFFmpegInput } from '../utils/audioProcessor';
 import type { ChunkingProgress } from '../utils/audioProcessor';
+import { runWithConcurrency } from '../utils/concurrency';
+import { CHAT_RESPONSE_FORMAT, CLASSIFICATION_RESPONSE_FORMAT, createSummaryResponseFormat, parseJsonContent, SECTION_RESPONSE_FORMAT, validateChatAnswer, validateClassification, validateSectionNotes, validateSummary } from '../utils/summarySchema';
+import { buildPassages, formatPassage, selectPassages } from '../utils/transcriptPassages';
+import { estimateTokens, groupNotes, splitTranscript } from '../utils/transcriptSections';
+import { formatDuration } from '../utils/file';
+import { DEFAULT_SUMMARY_LANGUAGES, getLanguageInfo } from '../utils/languages';
+import { findTemplateForContentType } from '../utils/summaryTemplates';
+import { createActionItems, toDateString } from '../utils/actionItems';
 
 class OpenAIService {
-  private readonly baseUrl = 'https://api.openai.com/v1';
-  private readonly maxFileSize = 25 * 1024 * 1024; // 25MB
   private readonly supportedFormats = ['mp3', 'mp4', 'm4a', 'wav', 'webm'];
+  private readonly defaultConcurrency = 3;
+  private readonly maxConcurrency = 6;
+  private readonly summaryConcurrency = 3; // section summaries in flight at once
+  private readonly maxSectionTokens = 24_000; // beyond this a single pass gives shallow summaries, whatever the context window
+  private readonly minSectionTokens = 1_000;
+  private readonly promptOverheadTokens = 3_000; // summary instructions and response format around the transcript
+  private readonly chatHistoryTurns = 10; // earlier messages sent along with a question
+  private readonly classificationExcerptChars = 6_000; // classifying needs a sample of the transcript, not all of it
+  private readonly classificationMaxTokens = 300;
+  private readonly keywordMaxConfidence = 0.6; // keyword matches are a guess, never as sure as the model
 
+  /**
+   * Transcribes a file with the given provider, compressing or splitting it first if it's over the provider's size limit
+   */
   async transcribeAudio(
-    apiKey: string, 
+    provider: TranscriptionProvider, 
     request: TranscriptionRequest, 
-    onBatchProgress?: (progress: BatchProgress) => void
+    onBatchProgress?: (progress: BatchProgress) => void,
+    batchOptions: BatchOptions = {}
   ): Promise<TranscriptionResult> {
     try {
-      if (!apiKey.trim()) {
-        throw {
-          message: 'API key is required',
-          type: 'validation_error',
-        } as TranscriptionError;
-      }
-
       if (!request.file) {
         throw {
           message: 'Audio file is required',
@@ -27,21 +42,48 @@ class OpenAIService {
         } as TranscriptionError;
       }
 
+      // Resuming a batch job picks up where the chunks left off
+      if (request.file.size > provider.maxFileSize && batchOptions.completedChunks?.length) {
+        console.log(`⏯️ Resuming batch transcription: ${batchOptions.completedChunks.length} chunks already done`);
+        return await this.transcribeAudioInBatches(provider, request, onBatchProgress, batchOptions);
+      }
+
+      // Compression only saves upload size, so on-device engines go straight to chunks
+      if (request.file.size > provider.maxFileSize && provider.isLocal) {
+        console.log(`✂️ Splitting for ${provider.name}: ${request.file.name} (${(request.file.size / 1024 / 1024).toFixed(2)} MB)`);
+        return await this.transcribeAudioInBatches(provider, request, onBatchProgress, batchOptions);
+      }
+
       // Check if file needs compression
-      if (request.file.size > this.maxFileSize) {
+      if (request.file.size > provider.maxFileSize) {
         console.log(`🗜️ Using compression for large file: ${request.file.name} (${(request.file.size / 1024 / 1024).toFixed(2)} MB)`);
-        return await this.transcribeWithCompression(apiKey, request, onBatchProgress);
+        return await this.transcribeWithCompression(provider, request, onBatchProgress, batchOptions);
       }
 
-      // Single file processing for files under 25MB
-      const transcription = await this.transcribeSingleFile(apiKey, request);
+      // Single file processing for files within the provider's limit
+      console.log(`🎵 Transcribing with ${provider.name}: ${request.file.name}`);
+      const transcription = await this.transcribeSingleFile(provider, request, retry => onBatchProgress?.({
+        phase: 'transcribing',
+        currentChunk: 0,
+        totalChunks: 1,
+        progress: 0,
+        retry,
+      }), batchOptions.signal, modelDownload => onBatchProgress?.({
+        phase: 'transcribing',
+        currentChunk: 0,
+        totalChunks: 1,
+        progress: 0,
+        modelDownload,
+      }));
       
       return {
         id: crypto.randomUUID(),
-        text: transcription,
+        text: transcription.text,
         audioFileName: request.file.name,
-        duration: undefined, // We'll add duration extraction later
-        language: request.language,
+        duration: transcription.duration,
+        language: transcription.language ?? request.language,
+        confidence: transcription.confidence,
+        segments: transcription.segments,
         createdAt: new Date(),
       };
     } catch (error) {
@@ -70,64 +112,33 @@ class OpenAIService {
     return [...this.supportedFormats];
   }
 
-  getMaxFileSize(): number {
-    return this.maxFileSize;
-  }
-
-  /**
-   * Transcribes a single audio file (under 25MB)
-   */
-  private async transcribeSingleFile(apiKey: string, request: TranscriptionRequest): Promise<string> {
-    // Create form data
-    const formData = new FormData();
-    formData.append('file', request.file);
-    formData.append('model', request.model);
-    
-    if (request.language) {
-      formData.append('language', request.language);
-    }
-    
-    if (request.temperature !== undefined) {
-      formData.append('temperature', request.temperature.toString());
-    }
-    
-    if (request.response_format) {
-      formData.append('response_format', request.response_format);
-    }
-    
-    // Make API request
-    const response = await fetch(`${this.baseUrl}/audio/transcriptions`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: formData,
+  private transcribeSingleFile(
+    provider: TranscriptionProvider,
+    request: TranscriptionRequest,
+    onRetry?: (info: RetryInfo) => void,
+    signal?: AbortSignal,
+    onModelProgress?: (progress: ModelLoadProgress) => void
+  ): Promise<TranscriptionOutput> {
+    return provider.transcribe(request.file, {
+      language: request.language,
+      temperature: request.temperature,
+      onRetry,
+      onModelProgress,
+      signal,
     });
-
-    if (!response.ok) {
-      console.error(`❌ Transcription API request failed:`, response.status, response.statusText);
-      const errorData = await response.json().catch(() => ({}));
-      throw {
-        message: `Transcription failed: ${errorData.error?.message || 'Unknown error'}`,
-        type: 'api_error',
-        code: errorData.error?.code,
-      } as TranscriptionError;
-    }
-
-    const data = await response.json();
-    const transcriptionText = data.text || '';
-    
-    return transcriptionText;
   }
 
   /**
    * Transcribes large audio files by compressing them with FFmpeg
    */
   private async transcribeWithCompression(
-    apiKey: string, 
+    provider: TranscriptionProvider, 
     request: TranscriptionRequest, 
-    onBatchProgress?: (progress: BatchProgress) => void
+    onBatchProgress?: (progress: BatchProgress) => void,
+    batchOptions: BatchOptions = {}
   ): Promise<TranscriptionResult> {
+    let splitIntoBatches = false; // batch failures are final, not another reason to fall back
+    let releaseFFmpeg = () => {};
     try {
       console.log(`🗜️ Compressing audio: ${request.file.name} (${(request.file.size / 1024 / 1024).toFixed(2)} MB)`);
       
@@ -141,10 +152,17 @@ class OpenAIService {
 
       // Import FFmpeg dynamically
       const { FFmpeg } = await import('@ffmpeg/ffmpeg');
-      const { fetchFile } = await import('@ffmpeg/util');
       
       const ffmpeg = new FFmpeg();
       
+      // Cancelling kills the FFmpeg worker, which rejects whatever call is in progress
+      const terminateOnAbort = () => ffmpeg.terminate();
+      batchOptions.signal?.addEventListener('abort', terminateOnAbort, { once: true });
+      releaseFFmpeg = () => {
+        batchOptions.signal?.removeEventListener('abort', terminateOnAbort);
+        ffmpeg.terminate();
+      };
+      
       // Simple load without verbose logging
       await ffmpeg.load();
       
@@ -155,10 +173,9 @@ class OpenAIService {
         progress: 25,
       });
 
-      // Write input file to FFmpeg virtual filesystem
-      const inputFileName = `input.${request.file.name.split('.').pop()}`;
+      // Mount the input in FFmpeg's filesystem - copying it in would need the whole file in memory
+      const inputFileName = await mountFFmpegInput(ffmpeg, request.file);
       const outputFileName = 'compressed_audio.ogg';
-      await ffmpeg.writeFile(inputFileName, await fetchFile(request.file));
       
       onBatchProgress?.({
         phase: 'processing',
@@ -194,6 +211,9 @@ class OpenAIService {
       const compressedBlob = new Blob([compressedData], { type: 'audio/ogg' });
       const compressedFile = new File([compressedBlob], 'compressed_audio.ogg', { type: 'audio/ogg' });
       
+      // Release the worker - the rest happens over the network
+      releaseFFmpeg();
+      
       console.log(`📊 [COMPRESS] Compression results:`, {
         originalSize: `${(request.file.size / 1024 / 1024).toFixed(2)} MB`,
         compressedSize: `${(compressedFile.size / 1024 / 1024).toFixed(2)} MB`,
@@ -201,8 +221,15 @@ class OpenAIService {
         sizeReduction: `${(((request.file.size - compressedFile.size) / request.file.size) * 100).toFixed(1)}%`
       });
       
+      // Very long recordings are still over the limit at 12 kbps, so uploading them would only be rejected
+      if (compressedFile.size > provider.maxFileSize) {
+        console.log(`✂️ [COMPRESS] Still too large after compression (${(compressedFile.size / 1024 / 1024).toFixed(2)} MB) - splitting into batches`);
+        splitIntoBatches = true;
+        return await this.transcribeAudioInBatches(provider, request, onBatchProgress, batchOptions);
+      }
+
       onBatchProgress?.({
-        phase: 'combining',
+        phase: 'transcribing',
         currentChunk: 1,
         totalChunks: 1,
         progress: 90,
@@ -215,10 +242,16 @@ class OpenAIService {
         file: compressedFile,
       };
       
-      const transcription = await this.transcribeSingleFile(apiKey, compressedRequest);
+      const transcription = await this.transcribeSingleFile(provider, compressedRequest, retry => onBatchProgress?.({
+        phase: 'transcribing',
+        currentChunk: 1,
+        totalChunks: 1,
+        progress: 90,
+        retry,
+      }), batchOptions.signal);
       
       onBatchProgress?.({
-        phase: 'combining',
+        phase: 'transcribing',
         currentChunk: 1,
         totalChunks: 1,
         progress: 100,
@@ -228,24 +261,45 @@ class OpenAIService {
         originalFile: request.file.name,
         originalSize: `${(request.file.size / 1024 / 1024).toFixed(2)} MB`,
         finalSize: `${(compressedFile.size / 1024 / 1024).toFixed(2)} MB`,
-        transcriptionLength: `${transcription.length} characters`
+        transcriptionLength: `${transcription.text.length} characters`
       });
       
+      // Compression doesn't change timing, so segments map straight onto the original file
       return {
         id: crypto.randomUUID(),
-        text: transcription,
+        text: transcription.text,
         audioFileName: request.file.name, // Keep original name
-        duration: undefined,
-        language: request.language,
+        duration: transcription.duration,
+        language: transcription.language ?? request.language,
+        confidence: transcription.confidence,
+        segments: transcription.segments,
         createdAt: new Date(),
       };
       
     } catch (error) {
+      // A failed step leaves the worker holding the whole input in memory, which batches can't spare
+      releaseFFmpeg();
+
+      if (batchOptions.signal?.aborted) {
+        console.log(`🛑 [COMPRESS] Cancelled by user`);
+        throw createCancelledError();
+      }
+      
+      if (splitIntoBatches) {
+        throw error;
+      }
+
       console.error(`❌ [COMPRESS] Compression failed:`, error);
+
+      // A bad key or exhausted quota would fail the same way in batches; a rejected upload (400/413) may not
+      const apiError = error as TranscriptionError;
+      if (apiError?.code === 'invalid_api_key' || apiError?.code === 'insufficient_quota' || apiError?.status === 403) {
+        throw error;
+      }
       
       // Fallback to batch processing if compression fails
       console.log(`🔄 [COMPRESS] Falling back to batch processing...`);
-      return await this.transcribeAudioInBatches(apiKey, request, onBatchProgress);
+      return await this.transcribeAudioInBatches(provider, request, onBatchProgress, batchOptions);
     }
   }
 
@@ -253,10 +307,18 @@ class OpenAIService {
    * Transcribes large audio files by splitting them into chunks
    */
   private async transcribeAudioInBatches(
-    apiKey: string, 
+    provider: TranscriptionProvider, 
     request: TranscriptionRequest, 
-    onBatchProgress?: (progress: BatchProgress) => void
+    onBatchProgress?: (progress: BatchProgress) => void,
+    batchOptions: BatchOptions = {}
   ): Promise<TranscriptionResult> {
+    // Follows the caller's signal, and is also aborted when a chunk fails so its siblings stop uploading
+    const batchAbort = new AbortController();
+    const abortBatch = () => batchAbort.abort();
+    if (batchOptions.signal?.aborted) abortBatch();
+    batchOptions.signal?.addEventListener('abort', abortBatch, { once: true });
+    let batchFailed = false;
+
     try {
       console.log(`🚀 [BATCH] Starting batch transcription for: ${request.file.name} (${(request.file.size / 1024 / 1024).toFixed(2)} MB)`);
       
@@ -272,87 +334,139 @@ class OpenAIService {
 
       // Split the audio file into chunks
       console.log(`📂 [BATCH] Phase 1: Chunking file...`);
-      const chunks = await chunkAudioFile(request.file, this.maxFileSize, onChunkingProgress);
+      const chunks = await chunkAudioFile(request.file, {
+        maxChunkSize: provider.maxFileSize,
+        overlapDuration: batchOptions.chunkOverlap,
+        signal: batchOptions.signal,
+      }, onChunkingProgress);
       
       // Estimate processing time
       const estimatedTime = estimateProcessingTime(chunks);
       console.log(`⏱️ [BATCH] Estimated processing time: ${estimatedTime} seconds for ${chunks.length} chunks`);
       
-      // Process each chunk
-      console.log(`🎵 [BATCH] Phase 2: Processing ${chunks.length} chunks...`);
-      const transcriptions: string[] = [];
+      // Process chunks through a bounded pool of concurrent requests
+      const concurrency = Math.max(1, Math.min(
+        provider.maxConcurrency ?? this.maxConcurrency,
+        batchOptions.concurrency ?? this.defaultConcurrency
+      ));
+      console.log(`🎵 [BATCH] Phase 2: Processing ${chunks.length} chunks (${concurrency} at a time)...`);
       const startTime = Date.now();
+      const totalAudio = chunks.reduce((sum, chunk) => sum + chunk.duration, 0);
+      const chunkStatuses: ChunkProgress[] = chunks.map(chunk => ({
+        index: chunk.index,
+        status: 'pending',
+        startTime: chunk.startTime,
+        duration: chunk.duration,
+      }));
+      let completedChunks = 0;
+      let processedAudio = 0;
       
-      onBatchProgress?.({
-        phase: 'processing',
-        currentChunk: 0,
-        totalChunks: chunks.length,
-        progress: 0,
-        estimatedTimeRemaining: estimatedTime,
-      });
-
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
+      // Results from an earlier run only count if chunking produced the same boundaries again
+      const resumedChunks = new Map(
+        (batchOptions.completedChunks ?? [])
+          .filter(c => chunks[c.index] && Math.abs(chunks[c.index].startTime - c.startTime) < 0.05)
+          .map(c => [c.index, c.output])
+      );
+      const resumedAudio = chunks
+        .filter(chunk => resumedChunks.has(chunk.index))
+        .reduce((sum, chunk) => sum + chunk.duration, 0);
+      if (resumedChunks.size > 0) {
+        console.log(`⏯️ [BATCH] Resuming: ${resumedChunks.size}/${chunks.length} chunks already transcribed`);
+      }
+      
+      const reportProgress = (retry?: RetryInfo, modelDownload?: ModelLoadProgress) => {
+        // Throughput in audio seconds per wall-clock second, once at least one chunk has finished
+        const elapsed = (Date.now() - startTime) / 1000;
+        const transcribedAudio = processedAudio - resumedAudio;
+        const throughput = transcribedAudio > 0 && elapsed > 0 ? transcribedAudio / elapsed : 0;
+        const estimatedTimeRemaining = throughput > 0
+          ? Math.ceil((totalAudio - processedAudio) / throughput)
+          : Math.ceil(estimatedTime / concurrency);
         
-        console.log(`🔄 [BATCH] Processing chunk ${i + 1}/${chunks.length}: ${chunk.file.name}`);
+        // Chunks still winding down after a failure must not report the job as running again
+        if (batchFailed) return { elapsed, estimatedTimeRemaining };
+        onBatchProgress?.({
+          phase: 'processing',
+          currentChunk: completedChunks,
+          totalChunks: chunks.length,
+          progress: totalAudio > 0 ? (processedAudio / totalAudio) * 100 : (completedChunks / chunks.length) * 100,
+          estimatedTimeRemaining,
+          chunks: chunkStatuses.map(status => ({ ...status })),
+          inFlightChunks: chunkStatuses.filter(status => status.status === 'processing').length,
+          retry,
+          modelDownload,
+        });
         
-        // Create request for this chunk
-        const chunkRequest: TranscriptionRequest = {
-          ...request,
-          file: chunk.file,
-        };
+        return { elapsed, estimatedTimeRemaining };
+      };
+      
+      reportProgress();
+
+      const transcriptions = await runWithConcurrency(chunks, concurrency, async (chunk, i): Promise<TranscriptionOutput> => {
+        const resumed = resumedChunks.get(chunk.index);
+        if (resumed) {
+          chunkStatuses[i].status = 'completed';
+          completedChunks++;
+          processedAudio += chunk.duration;
+          reportProgress();
+          return resumed;
+        }
         
         // Validate chunk before transcription
         if (chunk.file.size < 1000) { // Skip tiny chunks that are likely invalid
           console.log(`⚠️ [BATCH] Skipping chunk ${i + 1}/${chunks.length}: too small (${chunk.file.size} bytes)`);
-          transcriptions.push(''); // Add empty transcription to maintain array alignment
-          continue;
+          chunkStatuses[i].status = 'skipped';
+          completedChunks++;
+          processedAudio += chunk.duration;
+          reportProgress();
+          return { text: '', segments: [] }; // Empty transcription keeps array alignment
         }
 
-        // Transcribe this chunk with error handling
-        let transcription = '';
-        let chunkSkipped = false;
+        console.log(`🔄 [BATCH] Processing chunk ${i + 1}/${chunks.length}: ${chunk.file.name}`);
+        chunkStatuses[i].status = 'processing';
+        reportProgress();
         
+        // Create request for this chunk
+        const chunkRequest: TranscriptionRequest = {
+          ...request,
+          file: chunk.file,
+        };
+        
+        // Transcribe this chunk - every chunk is a standalone file, so any failure is a real failure
+        let transcription: TranscriptionOutput;
         try {
-          transcription = await this.transcribeSingleFile(apiKey, chunkRequest);
-          transcriptions.push(transcription);
-        } catch (chunkError: any) {
-          console.error(`❌ [BATCH] Chunk ${i + 1}/${chunks.length} failed:`, chunkError);
-          
-          // If it's a file format error, try to handle gracefully
-          if (chunkError.message?.includes('Invalid file format') || chunkError.message?.includes('file format')) {
-            console.log(`🔄 [BATCH] Chunk ${i + 1} has invalid format - this is common with binary splitting. Skipping chunk.`);
-            transcriptions.push(''); // Add empty transcription
-            chunkSkipped = true;
-          } else {
-            // For other errors, rethrow
-            throw chunkError;
-          }
+          transcription = await this.transcribeSingleFile(provider, chunkRequest, retry => {
+            console.log(`🔁 [BATCH] Chunk ${i + 1}/${chunks.length} will retry (attempt ${retry.attempt}/${retry.maxAttempts})`);
+            reportProgress(retry);
+          }, batchAbort.signal, modelDownload => reportProgress(undefined, modelDownload));
+        } catch (chunkError) {
+          chunkStatuses[i].status = 'failed';
+          reportProgress();
+          batchFailed = true;
+          abortBatch();
+          throw chunkError;
         }
         
-        // Calculate remaining time
-        const elapsed = (Date.now() - startTime) / 1000;
-        const avgTimePerChunk = elapsed / (i + 1);
-        const remainingChunks = chunks.length - (i + 1);
-        const estimatedTimeRemaining = Math.ceil(avgTimePerChunk * remainingChunks);
+        chunkStatuses[i].status = 'completed';
+        completedChunks++;
+        processedAudio += chunk.duration;
+        const { elapsed, estimatedTimeRemaining } = reportProgress();
+        batchOptions.onChunkComplete?.({
+          index: chunk.index,
+          startTime: chunk.startTime,
+          duration: chunk.duration,
+          output: transcription,
+        });
         
-        const statusText = chunkSkipped ? 'skipped (invalid format)' : 'completed';
-        console.log(`📊 [BATCH] Chunk ${i + 1}/${chunks.length} ${statusText}. Progress: ${(((i + 1) / chunks.length) * 100).toFixed(1)}%`, {
+        console.log(`📊 [BATCH] Chunk ${i + 1}/${chunks.length} completed. ${completedChunks}/${chunks.length} done`, {
           elapsed: `${elapsed.toFixed(1)}s`,
-          avgTimePerChunk: `${avgTimePerChunk.toFixed(1)}s`,
+          throughput: `${((processedAudio - resumedAudio) / Math.max(elapsed, 0.001)).toFixed(1)}x realtime`,
           remainingTime: `${estimatedTimeRemaining}s`,
-          transcriptionLength: chunkSkipped ? '0 chars (skipped)' : `${transcription.length} chars`
+          transcriptionLength: `${transcription.text.length} chars`
         });
         
-        // Update progress
-        onBatchProgress?.({
-          phase: 'processing',
-          currentChunk: i + 1,
-          totalChunks: chunks.length,
-          progress: ((i + 1) / chunks.length) * 100,
-          estimatedTimeRemaining,
-        });
-      }
+        return transcription;
+      });
 
       // Combine results
       console.log(`🔗 [BATCH] Phase 3: Combining ${transcriptions.length} transcription results...`);
@@ -363,7 +477,9 @@ class OpenAIService {
         progress: 100,
       });
       
-      const combinedText = combineChunkResults(chunks, transcriptions);
+      const combinedText = combineChunkResults(chunks, transcriptions.map(t => t.text));
+      const combinedSegments = combineChunkSegments(chunks, transcriptions.map(t => t.segments));
+      const lastChunk = chunks[chunks.length - 1];
       
       const totalProcessingTime = (Date.now() - startTime) / 1000;
       
@@ -379,65 +495,350 @@ class OpenAIService {
         id: crypto.randomUUID(),
         text: combinedText,
         audioFileName: request.file.name,
-        duration: undefined, // Total duration from all chunks
-        language: request.language,
+        duration: lastChunk ? lastChunk.startTime + lastChunk.duration : undefined,
+        language: transcriptions.find(t => t.language)?.language ?? request.language,
+        confidence: calculateConfidence(combinedSegments),
+        segments: combinedSegments,
         createdAt: new Date(),
       };
       
     } catch (error) {
+      if (batchOptions.signal?.aborted) {
+        console.log(`🛑 [BATCH] Cancelled by user`);
+        throw createCancelledError();
+      }
+      
       console.error(`❌ [BATCH] Batch transcription failed:`, error);
       throw {
-        message: `Batch transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ...(error instanceof Error ? {} : error as TranscriptionError),
+        message: `Batch transcription failed: ${error instanceof Error ? error.message : (error as TranscriptionError)?.message || 'Unknown error'}`,
         type: 'api_error',
       } as TranscriptionError;
+    } finally {
+      batchOptions.signal?.removeEventListener('abort', abortBatch);
     }
   }
 
-  private detectContentType(text: string): SummaryData['contentType'] {
-    const textLower = text.toLowerCase();
-    
-    // Check for meeting indicators
-    if (textLower.includes('meeting') || textLower.includes('agenda') || textLower.includes('action items') || 
-        textLower.includes('minutes') || textLower.includes('discuss') || textLower.includes('decision')) {
-      return 'meeting';
+  /**
+   * Parses and validates a JSON response, collecting every problem as a field-level error
+   */
+  private readJsonResponse<T>(content: string, validate: (value: unknown) => { data?: T; errors: string[] }): { data?: T; errors: string[] } {
+    try {
+      return validate(parseJsonContent(content));
+    } catch (parseError) {
+      console.log(`🔍 [SUMMARY] Raw content that failed to parse:`, content);
+      return { errors: [`response: not valid JSON (${parseError instanceof Error ? parseError.message : String(parseError)})`] };
     }
-    
-    // Check for interview indicators
-    if (textLower.includes('interview') || textLower.includes('question') || textLower.includes('answer') ||
-        textLower.includes('tell me about') || textLower.includes('experience')) {
-      return 'interview';
+  }
+
+  /**
+   * Requests schema-constrained JSON. An unusable answer gets one repair pass:
+   * the model sees what was wrong with it and is asked again.
+   */
+  private async requestJson<T>(
+    provider: SummaryProvider,
+    messages: ChatMessage[],
+    responseFormat: JsonSchemaFormat,
+    validate: (value: unknown) => { data?: T; errors: string[] },
+    options: SummaryOptions,
+    overrides: Pick<CompletionOptions, 'model' | 'maxTokens'> = {}
+  ): Promise<T> {
+    const completionOptions = { ...overrides, responseFormat, onRetry: options.onRetry, signal: options.signal };
+
+    const startTime = Date.now();
+    const content = await provider.complete(messages, completionOptions);
+
+    console.log(`📄 [SUMMARY] ${provider.name} response received`, {
+      duration: `${((Date.now() - startTime) / 1000).toFixed(2)}s`,
+      contentLength: `${content.length} characters`,
+      contentPreview: content.substring(0, 200) + (content.length > 200 ? '...' : '')
+    });
+
+    let result = this.readJsonResponse(content, validate);
+
+    if (!result.data) {
+      console.warn(`🔁 [SUMMARY] Response unusable, asking for a corrected one:`, result.errors);
+      const repaired = await provider.complete([
+        ...messages,
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your previous response could not be used:\n- ${result.errors.join('\n- ')}\n\nReply with only the corrected JSON object, following the response format exactly.`
+        }
+      ], completionOptions);
+      result = this.readJsonResponse(repaired, validate);
+    }
+
+    if (!result.data) {
+      console.error(`❌ [SUMMARY] Response still invalid after repair:`, result.errors);
+      throw {
+        message: `Invalid response from ${provider.name}: ${result.errors.slice(0, 3).join('; ')}${result.errors.length > 3 ? ` (+${result.errors.length - 3} more)` : ''}`,
+        type: 'api_error',
+        code: 'invalid_response',
+        retryable: false,
+      } as TranscriptionError;
     }
-    
-    // Check for lecture indicators
-    if (textLower.includes('lecture') || textLower.includes('lesson') || textLower.includes('course') ||
-        textLower.includes('chapter') || textLower.includes('today we will learn')) {
-      return 'lecture';
+
+    return result.data;
+  }
+
+  /**
+   * Largest slice of transcript that fits in one request alongside the instructions and the answer
+   */
+  private getSectionTokenBudget(provider: SummaryProvider): number {
+    const available = provider.contextWindow - provider.maxTokens - this.promptOverheadTokens;
+    return Math.max(this.minSectionTokens, Math.min(this.maxSectionTokens, available));
+  }
+
+  private createSectionMessages(
+    text: string,
+    label: string,
+    fileName: string,
+    outputLanguage: string,
+    context?: string,
+    fromNotes = false
+  ): ChatMessage[] {
+    return [
+      {
+        role: 'system',
+        content: 'You write faithful, detailed notes on one part of a longer recording. Keep names, speaker labels, numbers, dates and decisions exactly as stated. Always respond in valid JSON.'
+      },
+      {
+        role: 'user',
+        content: `**AUDIO FILE:** ${fileName}
+**PART:** ${label}
+${context ? `**CONTEXT PROVIDED BY USER:** "${context}"\n` : ''}
+${fromNotes
+  ? 'Below are notes on consecutive parts of the recording. Combine them into one set of notes for the whole span, keeping every important point.'
+  : 'Below is the transcript of this part only. Write notes on what it covers.'}
+
+Respond in ${getLanguageInfo(outputLanguage).name} with:
+- title: a short heading for what this part covers
+- summary: one or two dense paragraphs on what was said, decided and left open
+- keyPoints: the 3-8 most important points, as specific as the transcript allows
+- actionItems: tasks, requests or follow-ups that were mentioned (empty if none)
+
+**${fromNotes ? 'NOTES' : 'TRANSCRIPT'}:**
+"${text}"`
+      }
+    ];
+  }
+
+  private formatSectionNotes(section: SummarySection, label: string): string {
+    return [
+      `[${label}] ${section.title}`,
+      section.summary,
+      ...(section.keyPoints.length > 0 ? ['Key points:', ...section.keyPoints.map(point => `- ${point}`)] : []),
+      ...(section.actionItems?.length ? ['Action items:', ...section.actionItems.map(item => `- ${item}`)] : []),
+    ].join('\n');
+  }
+
+  /**
+   * Map step for long transcripts: every section is summarised on its own
+   */
+  private async summariseSections(
+    provider: SummaryProvider,
+    request: SummaryRequest,
+    sectionTokens: number,
+    options: SummaryOptions
+  ): Promise<SummarySection[]> {
+    const parts = splitTranscript(request.text, request.segments, sectionTokens);
+    const outputLanguage = request.outputLanguages?.[0] ?? DEFAULT_SUMMARY_LANGUAGES[0];
+    console.log(`🧩 [SUMMARY] Transcript too long for one request - summarising ${parts.length} sections of up to ${sectionTokens} tokens`);
+
+    let completed = 0;
+    options.onProgress?.({ phase: 'sections', completedSections: 0, totalSections: parts.length });
+
+    return runWithConcurrency(parts, this.summaryConcurrency, async (part, index): Promise<SummarySection> => {
+      const timeRange = part.startTime !== undefined && part.endTime !== undefined
+        ? `, ${formatDuration(part.startTime)} - ${formatDuration(part.endTime)}`
+        : '';
+      const notes = await this.requestJson(
+        provider,
+        this.createSectionMessages(part.text, `${index + 1} of ${parts.length}${timeRange}`, request.audioFileName, outputLanguage, request.context),
+        SECTION_RESPONSE_FORMAT,
+        validateSectionNotes,
+        options
+      );
+
+      completed++;
+      console.log(`✅ [SUMMARY] Section ${index + 1}/${parts.length} summarised (${completed} done)`);
+      options.onProgress?.({ phase: 'sections', completedSections: completed, totalSections: parts.length });
+      return { ...notes, index, startTime: part.startTime, endTime: part.endTime };
+    });
+  }
+
+  /**
+   * Reduce step: section notes become the input of the final summary.
+   * If even the notes don't fit, neighbouring notes are condensed together until they do.
+   */
+  private async mergeSectionNotes(
+    provider: SummaryProvider,
+    request: SummaryRequest,
+    sections: SummarySection[],
+    sectionTokens: number,
+    options: SummaryOptions
+  ): Promise<string> {
+    const outputLanguage = request.outputLanguages?.[0] ?? DEFAULT_SUMMARY_LANGUAGES[0];
+    let notes = sections.map(section => this.formatSectionNotes(
+      section,
+      `Part ${section.index + 1} of ${sections.length}` +
+        (section.startTime !== undefined && section.endTime !== undefined
+          ? `, ${formatDuration(section.startTime)} - ${formatDuration(section.endTime)}`
+          : '')
+    ));
+
+    while (notes.length > 1 && estimateTokens(notes.join('\n\n')) > sectionTokens) {
+      const groups = groupNotes(notes, sectionTokens);
+      if (groups.length >= notes.length) break; // every note is already at the limit on its own
+      console.log(`🗜️ [SUMMARY] Section notes still too long - condensing ${notes.length} notes into ${groups.length}`);
+
+      let completed = 0;
+      options.onProgress?.({ phase: 'merging', completedSections: 0, totalSections: groups.length });
+      notes = await runWithConcurrency(groups, this.summaryConcurrency, async (group, index) => {
+        const label = `Combined notes ${index + 1} of ${groups.length}`;
+        const condensed = await this.requestJson(
+          provider,
+          this.createSectionMessages(group, label, request.audioFileName, outputLanguage, request.context, true),
+          SECTION_RESPONSE_FORMAT,
+          validateSectionNotes,
+          options
+        );
+        completed++;
+        options.onProgress?.({ phase: 'merging', completedSections: completed, totalSections: groups.length });
+        return this.formatSectionNotes({ ...condensed, index }, label);
+      });
     }
-    
-    // Check for song indicators
-    if (textLower.includes('verse') || textLower.includes('chorus') || textLower.includes('bridge') ||
-        textLower.includes('lyrics') || textLower.match(/\b(la|na|oh|yeah|baby)\b/g)) {
-      return 'song';
+
+    options.onProgress?.({ phase: 'merging', completedSections: sections.length, totalSections: sections.length });
+    return notes.join('\n\n');
+  }
+
+  // Whole words and phrases only: "act" alone would match every "actually" and "action"
+  private readonly contentKeywords: Array<{ contentType: ContentType; pattern: RegExp }> = [
+    { contentType: 'meeting', pattern: /\b(meeting|agenda|action items?|minutes|next steps|follow[- ]ups?|deadlines?|sprint|roadmap|stakeholders?|let's move on|any other business)\b/g },
+    { contentType: 'interview', pattern: /\b(interview(er|ee)?|candidate|tell me about (yourself|a time)|walk me through|why do you want|your (background|previous role|current role))\b/g },
+    { contentType: 'lecture', pattern: /\b(lecture|lesson|syllabus|homework|assignment|exam|students|chapter \d+|today we('ll| will) (learn|cover|look at)|on this slide)\b/g },
+    { contentType: 'song', pattern: /\b(verse|chorus|lyrics|(la|na|oh|yeah)( (la|na|oh|yeah)){2,})\b/g },
+    { contentType: 'script', pattern: /\b(scene (one|two|three|\d+)|act (one|two|three|[ivx]+|\d+)|stage directions?|exeunt|fade (in|out)|cut to)\b/g },
+  ];
+
+  /**
+   * Classification by keyword counts, used when the model can't be asked.
+   * A single mention isn't enough to call a recording anything but a conversation.
+   */
+  private classifyByKeywords(text: string): ContentClassification {
+    const textLower = text.toLowerCase();
+    const counts = this.contentKeywords
+      .map(({ contentType, pattern }) => ({ contentType, count: textLower.match(pattern)?.length ?? 0 }))
+      .filter(({ count }) => count > 0)
+      .sort((a, b) => b.count - a.count);
+    const total = counts.reduce((sum, { count }) => sum + count, 0);
+
+    let labels: ContentLabel[] = counts.map(({ contentType, count }) => ({
+      contentType,
+      confidence: this.keywordMaxConfidence * count / total,
+    }));
+    if ((counts[0]?.count ?? 0) < 2) {
+      labels = [{ contentType: 'conversation', confidence: 0.3 }, ...labels.map(label => ({ ...label, confidence: Math.min(label.confidence, 0.2) }))];
     }
-    
-    // Check for script indicators
-    if (textLower.includes('scene') || textLower.includes('act') || textLower.includes('dialogue') ||
-        textLower.includes('character') || textLower.includes('stage direction')) {
-      return 'script';
+
+    return { ...labels[0], labels, source: 'keywords', createdAt: new Date() };
+  }
+
+  /**
+   * The start, middle and end of a long transcript - enough to tell what kind of recording it is
+   */
+  private createClassificationExcerpt(text: string): string {
+    if (text.length <= this.classificationExcerptChars) return text;
+    const part = Math.floor(this.classificationExcerptChars / 3);
+    const middle = Math.floor((text.length - part) / 2);
+    return [text.slice(0, part), text.slice(middle, middle + part), text.slice(-part)].join('\n[...]\n');
+  }
+
+  /**
+   * Classifies a transcript with the provider's classification model. Any failure other than cancelling falls
+   * back to keywords, so a summary is never lost over its framing.
+   */
+  async classifyContent(
+    provider: SummaryProvider,
+    request: Pick<SummaryRequest, 'text' | 'audioFileName' | 'context'>,
+    options: SummaryOptions = {}
+  ): Promise<ContentClassification> {
+    console.log(`🔍 [SUMMARY] Classifying content with ${provider.classificationModel}...`);
+
+    try {
+      const labels = await this.requestJson(provider, [
+        {
+          role: 'system',
+          content: 'You classify transcripts by the kind of recording they come from. Always respond in valid JSON.'
+        },
+        {
+          role: 'user',
+          content: `Classify this recording as one or more of these types:
+- meeting: people working together - status updates, planning, decisions, assigning work
+- conversation: an informal or unstructured exchange
+- lecture: teaching or presenting to an audience, including talks and tutorials
+- interview: one side mainly asks questions and the other answers, e.g. hiring, research or press
+- song: music with lyrics
+- script: scripted performance - a play, film, podcast read or drama
+- other: anything else, such as a voice note or dictation
+
+List every type that plausibly applies, most likely first, each with the probability (0 to 1) that it describes the recording. Judge from how people talk and what they do, not from single words.
+
+**AUDIO FILE:** ${request.audioFileName}
+${request.context ? `**CONTEXT PROVIDED BY USER:** "${request.context}"\n` : ''}
+**TRANSCRIPT${request.text.length > this.classificationExcerptChars ? ' (EXCERPTS)' : ''}:**
+"${this.createClassificationExcerpt(request.text)}"`
+        }
+      ], CLASSIFICATION_RESPONSE_FORMAT, validateClassification, options, {
+        model: provider.classificationModel,
+        maxTokens: this.classificationMaxTokens,
+      });
+
+      console.log(`✅ [SUMMARY] Content classified as ${labels[0].contentType}`, {
+        labels: labels.map(label => `${label.contentType}: ${Math.round(label.confidence * 100)}%`).join(', ')
+      });
+      return { ...labels[0], labels, source: 'model', createdAt: new Date() };
+    } catch (error) {
+      if (isCancelledError(error) || options.signal?.aborted) throw error;
+      console.warn(`⚠️ [SUMMARY] Classification failed, falling back to keywords:`, error);
+      return this.classifyByKeywords(request.text);
     }
-    
-    // Default to conversation
-    return 'conversation';
   }
 
-  private createSummaryPrompt(text: string, contentType: SummaryData['contentType'], fileName: string, context?: string): string {
+  /**
+   * How to write the action items shared by the standard and template summaries
+   */
+  private createActionItemInstructions(languages: string[], recordedAt?: Date): string {
+    return `**TRACKED ACTION ITEMS ("actionItems"):**
+Tasks someone agreed to, was asked to do, or that clearly have to happen next - these are copied into task trackers, so leave out general advice. Each one has:
+- "description": the task, one short imperative sentence, written once per language under its code (${languages.join(', ')})
+- "owner": who is to do it, as named in the recording (or their speaker label); empty if nobody was named
+- "dueDate": YYYY-MM-DD when the date can be worked out${recordedAt ? ` (the recording was made on ${toDateString(recordedAt)}, so "next Friday" can be resolved)` : ''}, otherwise the words used, e.g. "after the launch"; empty if no date was given
+- "quote": three to ten words from the transcript where the task came up, copied exactly so it can be found again
+Use an empty list when there are none.`;
+  }
+
+  private createSummaryPrompt(
+    text: string,
+    contentType: SummaryData['contentType'],
+    fileName: string,
+    languages: string[],
+    context?: string,
+    fromSectionNotes = false,
+    recordedAt?: Date
+  ): string {
+    const languageList = languages.map(code => `${getLanguageInfo(code).name} (${code})`).join(', ');
     const basePrompt = `You are a senior content strategist and executive summary specialist with expertise in transcription analysis and strategic interpretation. Your task is to create a comprehensive, professional-grade summary that goes beyond surface-level content to provide deep insights, contextual understanding, and strategic implications.
 
 **AUDIO FILE:** ${fileName}
 **DETECTED CONTENT TYPE:** ${contentType}
 **ANALYSIS SCOPE:** Deep contextual analysis with strategic insights and implicit understanding
+**OUTPUT LANGUAGES:** ${languageList}
 ${context ? `\n**ADDITIONAL CONTEXT PROVIDED BY USER:**\n"${context}"\n\n**IMPORTANT:** Use this context to enhance your understanding and provide more accurate, relevant insights. The user has provided this background information to help you better interpret the recording.` : ''}
 
+${fromSectionNotes ? `\n**NOTE:** This recording is too long to include verbatim. The content below is a set of notes on consecutive parts of it, in order and covering the whole recording. Base the summary on all of them.\n` : ''}
 **TRANSCRIBED CONTENT:**
 "${text}"
 
@@ -453,24 +854,27 @@ You are not just summarizing what was explicitly said - you are providing intell
 
 **RESPONSE FORMAT (JSON):**
 {
-  "contentType": "${contentType}",
-  "englishTitle": "Concise, descriptive title summarizing the main topic/purpose in English",
-  "hebrewTitle": "כותרת תמציתית ומתארת הסוכמת את הנושא/מטרה העיקריים בעברית",
-  "englishSummary": "Comprehensive 3-4 paragraph summary in English with contextual insights",
-  "hebrewSummary": "תקציר מקיף בן 3-4 פסקאות בעברית עם תובנות הקשריות",
-  "englishKeyPoints": ["5-8 detailed key points in English - mix explicit topics AND important implicit insights"],
-  "hebrewKeyPoints": ["5-8 נקודות מפתח מפורטות בעברית - שילוב של נושאים מפורשים ותובנות מרומזות חשובות"],
-  "englishInsights": ["4-6 strategic insights combining explicit content + contextual analysis + implications"],
-  "hebrewInsights": ["4-6 תובנות אסטרטגיות המשלבות תוכן מפורש + ניתוח הקשרי + השלכות"],
-  "englishActionItems": ["Actionable items including both explicit requests AND logical strategic steps"],
-  "hebrewActionItems": ["פעולות הכוללות בקשות מפורשות וגם צעדים אסטרטגיים הגיוניים"],
-  "englishParticipants": ["Key participants with contextual roles and influence level"],
-  "hebrewParticipants": ["משתתפים מרכזיים עם תפקידים הקשריים ורמת השפעה"],
-  "englishTimeline": "Duration/timeline with strategic timing implications",
-  "hebrewTimeline": "משך זמן/ציר זמן עם השלכות אסטרטגיות של תזמון",
-  "priority": "high|medium|low based on explicit urgency + contextual strategic importance"
+  "languages": {
+${languages.map(code => `    "${code}": { ...the full summary written in ${getLanguageInfo(code).name} }`).join(',\n')}
+  },
+  "priority": "high|medium|low based on explicit urgency + contextual strategic importance",
+  "actionItems": [...tracked action items, see below]
+}
+
+Each language entry has the same fields, all written in that language:
+{
+  "title": "Concise, descriptive title summarizing the main topic/purpose",
+  "summary": "Comprehensive 3-4 paragraph summary with contextual insights",
+  "keyPoints": ["5-8 detailed key points - mix explicit topics AND important implicit insights"],
+  "insights": ["4-6 strategic insights combining explicit content + contextual analysis + implications"],
+  "participants": ["Key participants with contextual roles and influence level"],
+  "timeline": "Duration/timeline with strategic timing implications"
 }
 
+When lines of the transcript start with a speaker label ("Speaker 2: ..." or a name), that is who is talking. Attribute statements and list participants by those labels, and write unnamed ones exactly as "Speaker N" in every language - never translate or renumber them.
+
+${this.createActionItemInstructions(languages, recordedAt)}
+
 **FORMATTING REQUIREMENTS:**
 
 **VISUAL ORGANIZATION:**
@@ -555,11 +959,9 @@ Adapt sections appropriately while maintaining visual organization and executive
 • Resource or timeline implications that emerge from context
 
 **ACTION ITEMS should encompass:**
-• Explicitly requested actions from the conversation
-• Logical next steps that follow from the discussion
-• Strategic actions that should be considered given the context
-• Risk mitigation steps implied by concerns raised
-• Follow-up items that weren't stated but are strategically important
+• Explicitly requested or agreed actions from the conversation
+• Follow-ups the discussion clearly depends on, even if nobody volunteered for them
+• Strategic steps that merely seem wise belong in insights and recommendations instead - action items are tracked as tasks
 
 **QUALITY STANDARDS:**
 1. **Executive Scannable:** Busy executives can find key info in seconds
@@ -588,15 +990,15 @@ If discussing a technical change → Add insight: "This technical shift may requ
 
 **Example - Contextual Action Items:**
 Explicit: "Send the report to John"
-Analytical addition: "Establish follow-up timeline for John's feedback and decision timeline to avoid project delays"
+Analytical addition (as an insight): "John's feedback needs a deadline, or the decision will slip and delay the project"
 
 **CRITICAL FORMATTING RULES:**
 1. Each summary MUST be visually organized with emojis, separators (⸻), proper indentation, and clear section breaks
 2. Avoid dense paragraph blocks - use structured, scannable formatting that executives can quickly navigate
-3. Hebrew summaries must maintain the SAME visual organization as English (emojis, separators, bullet points)
+3. Every language must carry the SAME content and visual organization (emojis, separators, bullet points) - write each one natively rather than translating word for word
 4. Use tabs for indentation under numbered items, bullets (•) for sub-points
 5. Include 3-5 main sections with clear emoji headers
-6. Always end with ✍️ Recommendations/המלצות section
+6. Always end with a ✍️ Recommendations section, its heading written in the summary's language
 
 EXAMPLE OUTPUT STRUCTURE:
 - Main summary paragraph with contextual insights
@@ -607,22 +1009,67 @@ EXAMPLE OUTPUT STRUCTURE:
     return basePrompt;
   }
 
-  async generateSummary(apiKey: string, request: SummaryRequest): Promise<SummaryData> {
+  /**
+   * Prompt for a user-defined template: its own instructions, then the transcript and the sections to fill in
+   */
+  private createTemplatePrompt(
+    template: SummaryTemplate,
+    text: string,
+    contentType: SummaryData['contentType'],
+    fileName: string,
+    languages: string[],
+    context?: string,
+    fromSectionNotes = false,
+    recordedAt?: Date
+  ): string {
+    const languageList = languages.map(code => `${getLanguageInfo(code).name} (${code})`).join(', ');
+    const fieldList = template.sections
+      .map(section => `- "${section.key}" (${section.type === 'list' ? 'array of strings' : 'string'}): ${section.name}${section.description ? ` - ${section.description}` : ''}`)
+      .join('\n');
+
+    return `${template.prompt.trim() || 'Summarise this recording.'}
+
+**AUDIO FILE:** ${fileName}
+**DETECTED CONTENT TYPE:** ${contentType}
+**OUTPUT LANGUAGES:** ${languageList}
+${context ? `**CONTEXT PROVIDED BY USER:** "${context}"\n` : ''}
+${fromSectionNotes ? '**NOTE:** This recording is too long to include verbatim. The content below is a set of notes on consecutive parts of it, in order and covering the whole recording. Base the summary on all of them.\n' : ''}
+**TRANSCRIBED CONTENT:**
+"${text}"
+
+**RESPONSE FORMAT (JSON):**
+{
+  "languages": {
+${languages.map(code => `    "${code}": { ...every field below, written in ${getLanguageInfo(code).name} }`).join(',\n')}
+  },
+  "priority": "high|medium|low based on urgency and importance",
+  "actionItems": [...tracked action items, see below]
+}
+
+Each language entry has these fields:
+- "title" (string): a concise title for the recording
+- "summary" (string): a short overview in one or two paragraphs
+${fieldList}
+
+Fill every section from the recording only. When it says nothing relevant to a section, say so briefly (or leave a list empty) instead of inventing content.
+When lines of the transcript start with a speaker label ("Speaker 2: ..." or a name), that is who is talking. Write unnamed speakers exactly as "Speaker N" in every language - never translate or renumber them.
+
+${this.createActionItemInstructions(languages, recordedAt)}`;
+  }
+
+  async generateSummary(
+    provider: SummaryProvider,
+    request: SummaryRequest,
+    options: SummaryOptions = {}
+  ): Promise<SummaryData> {
     try {
       console.log(`🤖 [SUMMARY] Starting AI summary generation for: ${request.audioFileName}`);
       console.log(`📝 [SUMMARY] Input validation:`, {
-        hasApiKey: !!apiKey?.trim(),
+        provider: provider.name,
+        model: provider.model,
         textLength: `${request.text.length} characters`,
-        language: request.language || 'auto-detect'
+        language: request.language || 'auto-detect',
       });
-      
-      if (!apiKey.trim()) {
-        console.error(`❌ [SUMMARY] API key validation failed`);
-        throw {
-          message: 'API key is required',
-          type: 'validation_error',
-        } as TranscriptionError;
-      }
 
       if (!request.text.trim()) {
         console.error(`❌ [SUMMARY] Text validation failed - empty text provided`);
@@ -632,119 +1079,59 @@ EXAMPLE OUTPUT STRUCTURE:
         } as TranscriptionError;
       }
 
-      // Detect content type
-      console.log(`🔍 [SUMMARY] Analyzing content type...`);
-      const contentType = this.detectContentType(request.text);
-      console.log(`✅ [SUMMARY] Content type detected: ${contentType}`);
-      
-      // Create prompt
-      console.log(`📋 [SUMMARY] Creating structured prompt for GPT-4.1...`);
-      const prompt = this.createSummaryPrompt(request.text, contentType, request.audioFileName, request.context);
-
-      // Make API request to GPT
-      console.log(`📡 [SUMMARY] Sending request to OpenAI GPT-4.1...`, {
-        model: 'gpt-4.1',
-        maxTokens: 4500,
-        temperature: 0.8,
-        promptLength: `${prompt.length} characters`
-      });
+      // Classified beforehand, or set by the user; keywords are the fallback for callers that skip classifyContent
+      const { contentType } = request.classification ?? this.classifyByKeywords(request.text);
+      console.log(`✅ [SUMMARY] Content type: ${contentType}`);
+
+      // A template chosen for the recording wins; otherwise one may be set up for this content type
+      const template = request.template ?? findTemplateForContentType(request.templates ?? [], contentType);
+      if (template?.languages?.length) {
+        request = { ...request, outputLanguages: template.languages };
+      }
+      const languages = request.outputLanguages?.length ? request.outputLanguages : DEFAULT_SUMMARY_LANGUAGES;
+      console.log(`📋 [SUMMARY] Using ${template ? `template "${template.name}"` : 'the standard summary'} in ${languages.join(', ')}`);
       
       const startTime = Date.now();
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4.1',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a senior content strategist and executive summary specialist with deep analytical capabilities. Your role is to provide intelligent business analysis that goes beyond surface-level summarization. Read between the lines, infer strategic implications, identify unspoken concerns, and provide contextual insights that busy executives need but might not have explicitly discussed. Create visually organized, scannable summaries using emojis, separators (⸻), and structured formatting. Always respond in valid JSON format with strategic, actionable insights that include both explicit content and your analytical interpretation.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_tokens: 4500,
-          temperature: 0.8,
-        }),
-      });
 
-      const apiDuration = Date.now() - startTime;
-      
-      if (!response.ok) {
-        console.error(`❌ [SUMMARY] OpenAI API request failed:`, response.status, response.statusText);
-        const errorData = await response.json().catch(() => ({}));
-        throw {
-          message: `Summary generation failed: ${errorData.error?.message || 'Unknown error'}`,
-          type: 'api_error',
-        } as TranscriptionError;
+      // Long transcripts are summarised section by section first, then from the section notes
+      const sectionTokens = this.getSectionTokenBudget(provider);
+      let sections: SummarySection[] | undefined;
+      let content = request.text;
+      if (estimateTokens(request.text) > sectionTokens) {
+        sections = await this.summariseSections(provider, request, sectionTokens, options);
+        content = await this.mergeSectionNotes(provider, request, sections, sectionTokens, options);
       }
 
-      console.log(`✅ [SUMMARY] OpenAI API response received`, {
-        duration: `${(apiDuration / 1000).toFixed(2)}s`,
-        status: response.status
-      });
-
-      const data = await response.json();
-      const content = data.choices[0]?.message?.content;
-
-      if (!content) {
-        console.error(`❌ [SUMMARY] No content in API response`);
-        throw {
-          message: 'No summary content received from API',
-          type: 'api_error',
-        } as TranscriptionError;
-      }
+      // Create prompt
+      console.log(`📋 [SUMMARY] Creating structured prompt for ${provider.model}...`);
+      const prompt = template
+        ? this.createTemplatePrompt(template, content, contentType, request.audioFileName, languages, request.context, !!sections, request.recordedAt)
+        : this.createSummaryPrompt(content, contentType, request.audioFileName, languages, request.context, !!sections, request.recordedAt);
+
+      const summaryFields = await this.requestJson(provider, [
+        {
+          role: 'system',
+          content: template
+            ? 'You write structured summaries of recordings following the user\'s template exactly. Always respond in valid JSON.'
+            : 'You are a senior content strategist and executive summary specialist with deep analytical capabilities. Your role is to provide intelligent business analysis that goes beyond surface-level summarization. Read between the lines, infer strategic implications, identify unspoken concerns, and provide contextual insights that busy executives need but might not have explicitly discussed. Create visually organized, scannable summaries using emojis, separators (⸻), and structured formatting. Always respond in valid JSON format with strategic, actionable insights that include both explicit content and your analytical interpretation.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ], createSummaryResponseFormat(languages, template), value => validateSummary(value, contentType, languages, template), options);
 
-      console.log(`📄 [SUMMARY] API response content received`, {
-        contentLength: `${content.length} characters`,
-        contentPreview: content.substring(0, 200) + (content.length > 200 ? '...' : '')
+      console.log(`✅ [SUMMARY] JSON parsing successful`, {
+        languages: Object.keys(summaryFields.languages).join(', '),
+        contentType: summaryFields.contentType,
+        priority: summaryFields.priority
       });
 
-      // Parse JSON response
-      console.log(`🔧 [SUMMARY] Parsing JSON response...`);
-      let parsedContent;
-      try {
-        parsedContent = JSON.parse(content);
-        console.log(`✅ [SUMMARY] JSON parsing successful`, {
-          hasEnglishTitle: !!parsedContent.englishTitle,
-          hasHebrewTitle: !!parsedContent.hebrewTitle,
-          contentType: parsedContent.contentType,
-          priority: parsedContent.priority,
-          keyPointsCount: Array.isArray(parsedContent.englishKeyPoints) ? parsedContent.englishKeyPoints.length : 0
-        });
-      } catch (parseError) {
-        console.error(`❌ [SUMMARY] JSON parsing failed:`, parseError);
-        console.log(`🔍 [SUMMARY] Raw content that failed to parse:`, content);
-        throw {
-          message: 'Invalid JSON response from summary API',
-          type: 'api_error',
-        } as TranscriptionError;
-      }
-
-      // Create summary data with language-specific fields
-      console.log(`🏗️ [SUMMARY] Building SummaryData object...`);
       const summaryData: SummaryData = {
-        englishTitle: parsedContent.englishTitle || undefined,
-        hebrewTitle: parsedContent.hebrewTitle || undefined,
-        english: parsedContent.englishSummary || 'Summary not available',
-        hebrew: parsedContent.hebrewSummary || 'תקציר לא זמין',
-        contentType: parsedContent.contentType || contentType,
-        keyPoints: Array.isArray(parsedContent.englishKeyPoints) ? parsedContent.englishKeyPoints : [],
-        hebrewKeyPoints: Array.isArray(parsedContent.hebrewKeyPoints) ? parsedContent.hebrewKeyPoints : [],
-        insights: Array.isArray(parsedContent.englishInsights) ? parsedContent.englishInsights : undefined,
-        hebrewInsights: Array.isArray(parsedContent.hebrewInsights) ? parsedContent.hebrewInsights : undefined,
-        actionItems: Array.isArray(parsedContent.englishActionItems) ? parsedContent.englishActionItems : undefined,
-        hebrewActionItems: Array.isArray(parsedContent.hebrewActionItems) ? parsedContent.hebrewActionItems : undefined,
-        participants: Array.isArray(parsedContent.englishParticipants) ? parsedContent.englishParticipants : undefined,
-        hebrewParticipants: Array.isArray(parsedContent.hebrewParticipants) ? parsedContent.hebrewParticipants : undefined,
-        timeline: parsedContent.englishTimeline || undefined,
-        hebrewTimeline: parsedContent.hebrewTimeline || undefined,
-        priority: parsedContent.priority || undefined,
+        ...summaryFields,
+        actionItems: createActionItems(summaryFields.actionItems, request.segments),
+        sections,
+        template: template && { id: template.id, name: template.name, sections: template.sections },
         createdAt: new Date(),
       };
       
@@ -754,14 +1141,11 @@ EXAMPLE OUTPUT STRUCTURE:
         fileName: request.audioFileName,
         contentType: summaryData.contentType,
         priority: summaryData.priority,
-        hasEnglishTitle: !!summaryData.englishTitle,
-        hasHebrewTitle: !!summaryData.hebrewTitle,
-        keyPointsCount: summaryData.keyPoints.length,
-        hebrewKeyPointsCount: summaryData.hebrewKeyPoints?.length || 0,
-        insightsCount: summaryData.insights?.length || 0,
-        actionItemsCount: summaryData.actionItems?.length || 0,
-        participantsCount: summaryData.participants?.length || 0,
-        hasTimeline: !!summaryData.timeline
+        languages: Object.entries(summaryData.languages).map(([code, localized]) =>
+          `${code}: ${localized.keyPoints.length} key points, ${localized.insights?.length || 0} insights`
+        ),
+        actionItems: summaryData.actionItems?.length || 0,
+        sectionsCount: summaryData.sections?.length || 0
       });
 
       return summaryData;
@@ -786,6 +1170,67 @@ EXAMPLE OUTPUT STRUCTURE:
       throw error;
     }
   }
+
+  /**
+   * Answers a question about a transcript from the passages most relevant to it, citing the ones it used.
+   * Earlier turns are sent too, so follow-up questions can refer back to them.
+   */
+  async askTranscript(
+    provider: SummaryProvider,
+    request: TranscriptQuestion,
+    options: Pick<SummaryOptions, 'onRetry' | 'signal'> = {}
+  ): Promise<TranscriptChatMessage> {
+    const question = request.question.trim();
+    if (!question) {
+      throw {
+        message: 'Type a question about the recording',
+        type: 'validation_error',
+      } as TranscriptionError;
+    }
+
+    const history = (request.history ?? []).slice(-this.chatHistoryTurns);
+    const historyTokens = history.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+    const budget = Math.max(this.minSectionTokens, this.getSectionTokenBudget(provider) - historyTokens - estimateTokens(question));
+
+    // Follow-ups like "and what did she decide?" need the previous question to find the right passages
+    const previousQuestion = [...history].reverse().find(message => message.role === 'user')?.content ?? '';
+    const passages = buildPassages(request.text, request.segments);
+    const excerpt = selectPassages(passages, `${question} ${previousQuestion}`, budget);
+    console.log(`💬 [CHAT] Answering from ${excerpt.length} of ${passages.length} passages of ${request.audioFileName}`);
+
+    const answer = await this.requestJson(provider, [
+      {
+        role: 'system',
+        content: `You answer questions about one recording using only its transcript. The transcript is given as numbered passages${
+          excerpt.length < passages.length ? ' - only the ones most relevant to the question, not the whole recording' : ''
+        }.
+
+Rules:
+- Base every statement on the passages. If they don't contain the answer, say so plainly instead of guessing.
+- Cite every passage you relied on: its number and the exact words from it that support the answer.
+- Only attribute words to people when the passage starts with a speaker label or the transcript names them.
+- Answer in the language of the question, concisely. Plain text, no markdown headings.
+- Always respond in valid JSON.
+
+**AUDIO FILE:** ${request.audioFileName}
+${request.context ? `**CONTEXT PROVIDED BY USER:** "${request.context}"\n` : ''}
+**TRANSCRIPT PASSAGES:**
+${excerpt.map(formatPassage).join('\n')}`
+      },
+      ...history.map((message): ChatMessage => ({ role: message.role, content: message.content })),
+      { role: 'user', content: question },
+    ], CHAT_RESPONSE_FORMAT, value => validateChatAnswer(value, excerpt), options);
+
+    console.log(`✅ [CHAT] Answer received with ${answer.citations.length} citation(s)`);
+
+    return {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      content: answer.answer,
+      citations: answer.citations,
+      createdAt: new Date(),
+    };
+  }
 }
 
 export const openAIService = new OpenAIService(); 
\ No newline at end of file
@@ -0,0 +1,160 @@
+import type {
+  AppSettings,
+  ChatMessage,
+  CompletionOptions,
+  SummaryProvider,
+  SummaryProviderConfig,
+  TranscriptionError,
+} from '../types';
+import { apiRequest, OPENAI_BASE_URL } from './apiClient';
+
+export const DEFAULT_SUMMARY_MODEL = 'gpt-4.1';
+export const DEFAULT_CLASSIFICATION_MODEL = 'gpt-4.1-nano';
+export const DEFAULT_SUMMARY_TEMPERATURE = 0.8;
+export const DEFAULT_SUMMARY_MAX_TOKENS = 4500;
+export const DEFAULT_OPENAI_CONTEXT_WINDOW = 128_000;
+export const DEFAULT_CUSTOM_CONTEXT_WINDOW = 8_192; // a common default for local servers
+
+interface OpenAICompatibleChatOptions {
+  name: string;
+  baseUrl: string; // up to and including the version, e.g. http://localhost:11434/v1
+  model: string;
+  classificationModel?: string; // defaults to the model above
+  apiKey?: string; // local servers often don't need one
+  temperature?: number;
+  maxTokens?: number;
+  contextWindow?: number;
+}
+
+/**
+ * Any server implementing OpenAI's `/chat/completions` endpoint, such as Ollama, vLLM or LM Studio
+ */
+export class OpenAICompatibleSummaryProvider implements SummaryProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly classificationModel: string;
+  readonly contextWindow: number;
+  readonly maxTokens: number;
+  private readonly baseUrl: string;
+  private readonly temperature: number;
+  protected readonly apiKey?: string;
+
+  constructor(options: OpenAICompatibleChatOptions) {
+    this.name = options.name;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.classificationModel = options.classificationModel?.trim() || options.model;
+    this.apiKey = options.apiKey?.trim() || undefined;
+    this.temperature = options.temperature ?? DEFAULT_SUMMARY_TEMPERATURE;
+    this.maxTokens = options.maxTokens ?? DEFAULT_SUMMARY_MAX_TOKENS;
+    this.contextWindow = options.contextWindow ?? DEFAULT_CUSTOM_CONTEXT_WINDOW;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    if (!this.baseUrl) {
+      throw {
+        message: 'Set the summary server URL in Settings',
+        type: 'validation_error',
+      } as TranscriptionError;
+    }
+
+    const model = options.model ?? this.model;
+    const maxTokens = options.maxTokens ?? this.maxTokens;
+
+    console.log(`📡 [SUMMARY] Sending request to ${this.name}...`, {
+      model,
+      maxTokens,
+      temperature: this.temperature,
+      promptLength: `${messages.reduce((sum, message) => sum + message.content.length, 0)} characters`
+    });
+
+    const response = await apiRequest(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        max_tokens: maxTokens,
+        temperature: this.temperature,
+        ...(options.responseFormat ? {
+          response_format: { type: 'json_schema', json_schema: options.responseFormat },
+        } : {}),
+      }),
+    }, { errorPrefix: `Summary generation failed (${this.name})`, onRetry: options.onRetry, signal: options.signal });
+
+    const data = await response.json();
+    const content: string | undefined = data.choices?.[0]?.message?.content;
+
+    if (data.choices?.[0]?.finish_reason === 'length') {
+      console.warn(`⚠️ [SUMMARY] Response hit the ${maxTokens} token limit and is probably cut off`);
+    }
+
+    if (!content) {
+      console.error(`❌ [SUMMARY] No content in API response`);
+      throw {
+        message: 'No summary content received from API',
+        type: 'api_error',
+      } as TranscriptionError;
+    }
+
+    return content;
+  }
+}
+
+/**
+ * OpenAI's hosted chat models
+ */
+export class OpenAISummaryProvider extends OpenAICompatibleSummaryProvider {
+  constructor(apiKey: string, options: Omit<OpenAICompatibleChatOptions, 'name' | 'baseUrl' | 'apiKey' | 'model'> & { model?: string } = {}) {
+    super({
+      ...options,
+      name: 'OpenAI',
+      baseUrl: OPENAI_BASE_URL,
+      apiKey,
+      model: options.model || DEFAULT_SUMMARY_MODEL,
+      classificationModel: options.classificationModel || DEFAULT_CLASSIFICATION_MODEL,
+      contextWindow: options.contextWindow ?? DEFAULT_OPENAI_CONTEXT_WINDOW,
+    });
+  }
+
+  async complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+    if (!this.apiKey) {
+      throw {
+        message: 'API key is required',
+        type: 'validation_error',
+      } as TranscriptionError;
+    }
+    return super.complete(messages, options);
+  }
+}
+
+/**
+ * Builds the summary provider selected in settings. The OpenAI key is only sent to OpenAI, never to a custom server.
+ */
+export const createSummaryProvider = (
+  settings: Pick<AppSettings, 'apiKey' | 'summaryProvider'>
+): SummaryProvider => {
+  const config: SummaryProviderConfig = settings.summaryProvider ?? { type: 'openai' };
+  const parameters = { temperature: config.temperature, maxTokens: config.maxTokens, contextWindow: config.contextWindow };
+
+  // A custom provider without a URL fails its requests rather than quietly falling back to OpenAI
+  if (config.type === 'custom') {
+    return new OpenAICompatibleSummaryProvider({
+      ...parameters,
+      name: 'Custom server',
+      baseUrl: config.baseUrl?.trim() ?? '',
+      model: config.model?.trim() || DEFAULT_SUMMARY_MODEL,
+      classificationModel: config.classificationModel,
+      apiKey: config.apiKey,
+    });
+  }
+
+  return new OpenAISummaryProvider(settings.apiKey, {
+    ...parameters,
+    model: config.model?.trim(),
+    classificationModel: config.classificationModel?.trim(),
+  });
+};
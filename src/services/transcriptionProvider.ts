@@ -0,0 +1,203 @@
+import type {
+  AppSettings,
+  TranscriptionError,
+  TranscriptionOutput,
+  TranscriptionProvider,
+  TranscriptionProviderConfig,
+  TranscriptionSegment,
+  TranscribeOptions,
+} from '../types';
+import { apiRequest, OPENAI_BASE_URL } from './apiClient';
+import { DEFAULT_LOCAL_MODEL, LocalWhisperProvider } from './localWhisperProvider';
+
+interface VerboseTranscriptionResponse {
+  text?: string;
+  duration?: number;
+  language?: string;
+  segments?: Array<{
+    start: number;
+    end: number;
+    text: string;
+    avg_logprob?: number;
+    speaker?: string; // diarized_json, and servers that diarize verbose_json
+  }>;
+  words?: Array<{
+    word: string;
+    start: number;
+    end: number;
+  }>;
+}
+
+const OPENAI_MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB
+export const DEFAULT_OPENAI_MODEL = 'whisper-1';
+export const OPENAI_DIARIZE_MODEL = 'gpt-4o-transcribe-diarize';
+
+/**
+ * Diarizing models answer in `diarized_json`, whose segments say who is speaking
+ */
+const isDiarizeModel = (model: string): boolean => model.includes('diarize');
+
+/**
+ * Duration-weighted average of segment confidences
+ */
+export const calculateConfidence = (segments: TranscriptionSegment[]): number | undefined => {
+  let weightedSum = 0;
+  let totalDuration = 0;
+
+  for (const segment of segments) {
+    if (segment.confidence === undefined) continue;
+    const duration = Math.max(0.01, segment.end - segment.start);
+    weightedSum += segment.confidence * duration;
+    totalDuration += duration;
+  }
+
+  return totalDuration > 0 ? weightedSum / totalDuration : undefined;
+};
+
+/**
+ * Maps a transcription response onto TranscriptionOutput.
+ * Plain `json` responses only carry text; `verbose_json` adds segments, words, duration and language,
+ * and `diarized_json` has segments with a speaker each.
+ */
+const parseTranscription = (data: VerboseTranscriptionResponse): TranscriptionOutput => {
+  const words = data.words ?? [];
+
+  const segments: TranscriptionSegment[] = (data.segments ?? []).map((segment, index) => {
+    const segmentWords = words.filter(word => word.start >= segment.start && word.start < segment.end);
+    return {
+      id: index,
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+      confidence: segment.avg_logprob !== undefined
+        ? Math.min(1, Math.max(0, Math.exp(segment.avg_logprob)))
+        : undefined,
+      words: segmentWords.length > 0 ? segmentWords : undefined,
+      speaker: segment.speaker || undefined,
+    };
+  });
+
+  return {
+    text: data.text || '',
+    segments,
+    duration: data.duration,
+    language: data.language,
+    confidence: calculateConfidence(segments),
+  };
+};
+
+interface OpenAICompatibleOptions {
+  name: string;
+  baseUrl: string; // up to and including the version, e.g. http://localhost:8000/v1
+  model: string;
+  apiKey?: string; // self-hosted servers often don't need one
+  maxFileSize?: number;
+}
+
+/**
+ * Any server implementing OpenAI's `/audio/transcriptions` endpoint,
+ * such as faster-whisper-server, whisper.cpp's server or LocalAI
+ */
+export class OpenAICompatibleProvider implements TranscriptionProvider {
+  readonly name: string;
+  readonly maxFileSize: number;
+  private readonly baseUrl: string;
+  private readonly model: string;
+  protected readonly apiKey?: string;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey?.trim() || undefined;
+    this.maxFileSize = options.maxFileSize ?? OPENAI_MAX_FILE_SIZE;
+  }
+
+  async transcribe(file: File, options: TranscribeOptions = {}): Promise<TranscriptionOutput> {
+    if (!this.baseUrl) {
+      throw {
+        message: 'Set the transcription server URL in Settings',
+        type: 'validation_error',
+      } as TranscriptionError;
+    }
+
+    // Create form data
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('model', this.model);
+
+    if (isDiarizeModel(this.model)) {
+      formData.append('response_format', 'diarized_json');
+      // Required for recordings longer than 30 seconds
+      formData.append('chunking_strategy', 'auto');
+    } else {
+      formData.append('response_format', 'verbose_json');
+
+      // Timestamp granularities are only available with verbose_json
+      formData.append('timestamp_granularities[]', 'segment');
+      formData.append('timestamp_granularities[]', 'word');
+    }
+
+    if (options.language) {
+      formData.append('language', options.language);
+    }
+    
+    if (options.temperature !== undefined) {
+      formData.append('temperature', options.temperature.toString());
+    }
+
+    // Make API request
+    const response = await apiRequest(`${this.baseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : undefined,
+      body: formData,
+    }, { errorPrefix: `Transcription failed (${this.name})`, onRetry: options.onRetry, signal: options.signal });
+
+    const data = await response.json();
+    return parseTranscription(data);
+  }
+}
+
+/**
+ * OpenAI's hosted Whisper API
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  constructor(apiKey: string, model: string = DEFAULT_OPENAI_MODEL) {
+    super({ name: 'OpenAI', baseUrl: OPENAI_BASE_URL, model, apiKey, maxFileSize: OPENAI_MAX_FILE_SIZE });
+  }
+
+  async transcribe(file: File, options?: TranscribeOptions): Promise<TranscriptionOutput> {
+    if (!this.apiKey) {
+      throw {
+        message: 'API key is required',
+        type: 'validation_error',
+      } as TranscriptionError;
+    }
+    return super.transcribe(file, options);
+  }
+}
+
+/**
+ * Builds the provider selected in settings. The OpenAI key is only sent to OpenAI, never to a custom server.
+ */
+export const createTranscriptionProvider = (
+  settings: Pick<AppSettings, 'apiKey' | 'model' | 'transcriptionProvider'>
+): TranscriptionProvider => {
+  const config: TranscriptionProviderConfig = settings.transcriptionProvider ?? { type: 'openai' };
+
+  if (config.type === 'local') {
+    return new LocalWhisperProvider(config.localModel || DEFAULT_LOCAL_MODEL);
+  }
+
+  // A custom provider without a URL fails its requests rather than quietly falling back to OpenAI
+  if (config.type === 'custom') {
+    return new OpenAICompatibleProvider({
+      name: 'Custom server',
+      baseUrl: config.baseUrl?.trim() ?? '',
+      model: config.model?.trim() || DEFAULT_OPENAI_MODEL,
+      apiKey: config.apiKey,
+    });
+  }
+
+  return new OpenAIProvider(settings.apiKey, settings.model || DEFAULT_OPENAI_MODEL);
+};
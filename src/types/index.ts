@@ -1,23 +1,131 @@
-export interface SummaryData {
-  englishTitle?: string;
-  hebrewTitle?: string;
-  english: string;
-  hebrew: string;
-  contentType: 'meeting' | 'conversation' | 'lecture' | 'interview' | 'song' | 'script' | 'other';
+/**
+ * A summary's content in one language
+ */
+export interface LocalizedSummary {
+  title?: string;
+  summary: string;
   keyPoints: string[];
-  hebrewKeyPoints?: string[];
   insights?: string[];
-  hebrewInsights?: string[];
-  actionItems?: string[];
-  hebrewActionItems?: string[];
   participants?: string[];
-  hebrewParticipants?: string[];
   timeline?: string;
-  hebrewTimeline?: string;
+  fields?: Record<string, string | string[]>; // a template's output sections, keyed by section key
+}
+
+export type ContentType = 'meeting' | 'conversation' | 'lecture' | 'interview' | 'song' | 'script' | 'other';
+
+export interface ContentLabel {
+  contentType: ContentType;
+  confidence: number; // 0-1
+}
+
+/**
+ * What kind of recording a transcript is, which frames its summary and picks its template
+ */
+export interface ContentClassification extends ContentLabel {
+  labels: ContentLabel[]; // every type that applies, most likely first - the first is the one above
+  source: 'model' | 'keywords' | 'user'; // keywords when the model couldn't be reached; user when set by hand
+  createdAt: Date;
+}
+
+export interface SummaryData {
+  languages: Record<string, LocalizedSummary>; // keyed by ISO 639-1 code, in the order they were requested
+  contentType: ContentType;
   priority?: 'high' | 'medium' | 'low';
+  sections?: SummarySection[]; // set when a long transcript was summarised section by section
+  template?: SummaryTemplateInfo; // set when written with a template rather than the standard summary
+  actionItems?: ActionItem[];
   createdAt: Date;
 }
 
+/**
+ * A follow-up from a recording, tracked until it is done
+ */
+export interface ActionItem {
+  id: string;
+  description: Record<string, string>; // keyed by language code, like SummaryData.languages
+  owner?: string; // as named in the recording, or "Speaker N"
+  dueDate?: string; // YYYY-MM-DD when the date could be worked out, otherwise as said, e.g. "after the launch"
+  timestamp?: number; // seconds into the recording where it came up
+  status: 'open' | 'done';
+  completedAt?: Date;
+}
+
+/**
+ * One output section of a summary template
+ */
+export interface SummaryTemplateSection {
+  key: string; // property name the model fills in, derived from the name
+  name: string; // heading shown with the summary
+  type: 'text' | 'list';
+  description?: string; // what belongs in the section, passed to the model
+}
+
+/**
+ * A user-defined summary: its own instructions and output sections instead of the standard summary
+ */
+export interface SummaryTemplate {
+  id: string;
+  name: string;
+  prompt: string; // instructions that come before the transcript
+  sections: SummaryTemplateSection[];
+  languages?: string[]; // output languages for this template, instead of the ones in settings
+  contentTypes: ContentType[]; // used automatically for recordings detected as these
+}
+
+// What a summary keeps of its template, so it still renders after the template is edited or deleted
+export type SummaryTemplateInfo = Pick<SummaryTemplate, 'id' | 'name' | 'sections'>;
+
+export interface SummarySection {
+  index: number;
+  title: string;
+  summary: string;
+  keyPoints: string[];
+  actionItems?: string[];
+  startTime?: number; // seconds, when the transcript has timestamps
+  endTime?: number; // seconds
+}
+
+export interface SummaryProgress {
+  phase: 'sections' | 'merging';
+  completedSections: number;
+  totalSections: number;
+}
+
+export interface TranscriptionWord {
+  word: string;
+  start: number; // seconds
+  end: number; // seconds
+}
+
+export interface TranscriptionSegment {
+  id: number;
+  start: number; // seconds from the start of the recording
+  end: number; // seconds from the start of the recording
+  text: string;
+  confidence?: number; // 0-1, derived from the segment's avg_logprob
+  words?: TranscriptionWord[];
+  speaker?: string; // speaker id from a diarizing provider, e.g. "A" or "SPEAKER_00"
+}
+
+export interface TranscriptionOutput {
+  text: string;
+  segments: TranscriptionSegment[];
+  duration?: number;
+  language?: string;
+  confidence?: number;
+}
+
+export interface StoredAudio {
+  type: string; // MIME type of the stored copy
+  size: number; // bytes
+  compressed: boolean; // true when a compressed Opus copy was kept instead of the original file
+}
+
+export interface VideoInfo {
+  duration?: number; // seconds, as reported by the container
+  thumbnail?: string; // small JPEG frame as a data URL
+}
+
 export interface TranscriptionResult {
   id: string;
   text: string;
@@ -25,9 +133,33 @@ export interface TranscriptionResult {
   duration?: number;
   language?: string;
   confidence?: number;
+  segments?: TranscriptionSegment[];
   createdAt: Date;
   summary?: SummaryData;
   context?: string;
+  audio?: StoredAudio; // set once the recording is stored alongside the result
+  video?: VideoInfo; // set when the source was a video - the audio above is its extracted track
+  chat?: TranscriptChatMessage[]; // questions asked about this recording and their answers, oldest first
+  speakers?: Record<string, string>; // names given to speakers, by speaker id - see getSpeakerLabels
+  classification?: ContentClassification; // kept across summary regenerations, replaced only by the user
+}
+
+/**
+ * A transcript passage an answer relies on
+ */
+export interface ChatCitation {
+  passage: number; // index of the passage the answer was given, see buildPassages
+  quote: string; // the words relied on, as they appear in the transcript
+  startTime?: number; // seconds, when the transcript has timestamps
+  endTime?: number;
+}
+
+export interface TranscriptChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: ChatCitation[]; // assistant messages only
+  createdAt: Date;
 }
 
 export interface AudioFile {
@@ -39,48 +171,249 @@ export interface AudioFile {
   url?: string;
 }
 
+export type TranscriptionProviderType = 'openai' | 'custom' | 'local';
+
+export interface TranscriptionProviderConfig {
+  type: TranscriptionProviderType;
+  baseUrl?: string; // custom servers only, e.g. http://localhost:8000/v1
+  apiKey?: string; // custom servers only - the OpenAI key is never sent to them
+  model?: string; // custom servers only; OpenAI uses AppSettings.model
+  localModel?: string; // local engine only, a Hugging Face model id
+}
+
+export interface ModelLoadProgress {
+  loaded: number; // bytes
+  total: number; // bytes
+  progress: number; // 0-100
+}
+
+export interface TranscribeOptions {
+  language?: string;
+  temperature?: number;
+  onRetry?: (info: RetryInfo) => void;
+  onModelProgress?: (progress: ModelLoadProgress) => void; // local engines, while the model downloads
+  signal?: AbortSignal;
+}
+
+/**
+ * A speech-to-text backend. Files larger than maxFileSize are compressed or split before they reach it.
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  readonly maxFileSize: number; // bytes per request
+  readonly maxConcurrency?: number; // requests it can handle at once, when lower than the settings allow
+  readonly isLocal?: boolean; // runs on this device, so large files are split rather than compressed for upload
+  transcribe(file: File, options?: TranscribeOptions): Promise<TranscriptionOutput>;
+}
+
+export interface SummaryProviderConfig {
+  type: 'openai' | 'custom';
+  baseUrl?: string; // custom servers only, e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string; // custom servers only - the OpenAI key is never sent to them
+  model?: string; // chat model; defaults to gpt-4.1 on OpenAI
+  classificationModel?: string; // defaults to gpt-4.1-nano on OpenAI and the chat model on custom servers
+  temperature?: number;
+  maxTokens?: number; // limit on the completion
+  contextWindow?: number; // tokens; longer transcripts are summarised in sections
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface JsonSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+  strict?: boolean;
+}
+
+export interface CompletionOptions {
+  responseFormat?: JsonSchemaFormat; // asks for JSON matching the schema (structured outputs)
+  model?: string; // instead of the provider's model, e.g. its cheaper classification model
+  maxTokens?: number; // instead of the provider's completion limit
+  onRetry?: (info: RetryInfo) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat-completion backend used for summaries
+ */
+export interface SummaryProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly classificationModel: string; // a cheap model for short requests such as classifying the content type
+  readonly contextWindow: number; // tokens the model accepts, prompt and completion together
+  readonly maxTokens: number; // completion limit
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+}
+
 export interface AppSettings {
-  apiKey: string;
-  model: 'whisper-1';
+  apiKey: string; // OpenAI key - only required while a provider below uses OpenAI
+  model: string; // OpenAI transcription model
+  transcriptionProvider?: TranscriptionProviderConfig;
+  summaryProvider?: SummaryProviderConfig;
+  summaryLanguages?: string[]; // ISO 639-1 codes summaries are written in
+  summaryTemplates?: SummaryTemplate[];
   language?: string;
   temperature?: number;
+  chunkOverlap?: number; // seconds shared between consecutive chunks of long recordings
+  concurrency?: number; // parallel chunk requests for long recordings
+  maxConcurrentJobs?: number; // files transcribed at the same time
 }
 
 export interface TranscriptionRequest {
   file: File;
-  model: string;
   language?: string;
   temperature?: number;
-  response_format?: 'json' | 'text' | 'srt' | 'verbose_json' | 'vtt';
 }
 
 export interface SummaryRequest {
   text: string;
+  segments?: TranscriptionSegment[]; // used to place section boundaries and time ranges on long transcripts
   language?: string;
+  outputLanguages?: string[]; // ISO 639-1 codes to write the summary in, defaults to English and Hebrew
+  template?: SummaryTemplate; // chosen for this recording
+  templates?: SummaryTemplate[]; // otherwise the first one for the detected content type is used
+  classification?: ContentClassification; // from classifyContent or the user; keywords are used without one
+  recordedAt?: Date; // resolves due dates such as "next Friday"
   audioFileName: string;
   context?: string;
 }
 
+export interface TranscriptQuestion {
+  question: string;
+  text: string;
+  segments?: TranscriptionSegment[]; // cited by timestamp when present
+  audioFileName: string;
+  context?: string;
+  history?: TranscriptChatMessage[]; // earlier turns, oldest first
+}
+
+export interface ChunkTranscription {
+  index: number;
+  startTime: number; // seconds
+  duration: number; // seconds
+  output: TranscriptionOutput;
+}
+
+export interface BatchOptions {
+  chunkOverlap?: number; // seconds
+  concurrency?: number; // chunk requests in flight at once
+  signal?: AbortSignal;
+  completedChunks?: ChunkTranscription[]; // results from an earlier run, skipped when resuming
+  onChunkComplete?: (chunk: ChunkTranscription) => void;
+}
+
+export interface TranscriptionJob {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  phase: BatchProgress['phase'];
+  context?: string;
+  chunkOverlap?: number;
+  concurrency?: number;
+  totalChunks?: number;
+  video?: VideoInfo; // the stored file is the audio extracted from this video
+  completedChunks: ChunkTranscription[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SummaryOptions {
+  onRetry?: (info: RetryInfo) => void;
+  onProgress?: (progress: SummaryProgress) => void; // long transcripts only
+  signal?: AbortSignal;
+}
+
+export type TranscriptionErrorCode =
+  // Transient - retried automatically
+  | 'rate_limited'
+  | 'server_error'
+  | 'timeout'
+  | 'network_error'
+  // Fatal - retrying won't help
+  | 'invalid_api_key'
+  | 'insufficient_quota'
+  | 'invalid_request'
+  | 'invalid_response'
+  | 'unknown_error'
+  // Stopped by the user
+  | 'cancelled';
+
 export interface TranscriptionError {
   message: string;
-  code?: string;
-  type: 'api_error' | 'file_error' | 'network_error' | 'validation_error';
+  code?: TranscriptionErrorCode;
+  retryable?: boolean;
+  status?: number; // HTTP status, when the error came from the API
+  type: 'api_error' | 'file_error' | 'network_error' | 'validation_error' | 'storage_error';
+}
+
+export interface StorageUsage {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+export interface RetryInfo {
+  attempt: number; // the attempt about to be made, starting at 2
+  maxAttempts: number;
+  delay: number; // seconds until the next attempt
+  code: TranscriptionErrorCode;
+  message: string;
+}
+
+export interface ChunkProgress {
+  index: number;
+  status: 'pending' | 'processing' | 'completed' | 'skipped' | 'failed';
+  startTime: number; // seconds into the recording
+  duration: number; // seconds
 }
 
 export interface BatchProgress {
-  phase: 'analyzing' | 'chunking' | 'processing' | 'combining';
+  phase: 'analyzing' | 'chunking' | 'processing' | 'transcribing' | 'combining'; // transcribing: one request for the whole file
   currentChunk: number;
   totalChunks: number;
   progress: number; // 0-100
   estimatedTimeRemaining?: number; // seconds
+  chunks?: ChunkProgress[];
+  inFlightChunks?: number;
+  retry?: RetryInfo;
+  modelDownload?: ModelLoadProgress; // first run of a local engine
+}
+
+export type QueueJobStatus = 'queued' | 'compressing' | 'transcribing' | 'summarising' | 'done' | 'failed';
+
+export interface QueueOptions {
+  provider?: TranscriptionProvider; // defaults to OpenAI with the job's API key
+  summaryProvider?: SummaryProvider; // likewise
+  summaryLanguages?: string[];
+  summaryTemplate?: SummaryTemplate;
+  summaryTemplates?: SummaryTemplate[]; // see SummaryRequest
+  context?: string;
+  chunkOverlap?: number;
+  concurrency?: number;
+}
+
+export interface QueueJob extends QueueOptions {
+  id: string;
+  file: AudioFile;
+  apiKey: string;
+  status: QueueJobStatus;
+  savedJobId?: string; // persisted TranscriptionJob holding finished chunks, for large files
+  liveTranscription?: TranscriptionOutput; // transcribed while recording - only the summary is left to do
+  progress?: BatchProgress;
+  summaryRetry?: RetryInfo;
+  summaryProgress?: SummaryProgress;
+  error?: TranscriptionError;
+  resultId?: string; // set once the transcript is saved
+  addedAt: Date;
 }
 
 export interface TranscriptionState {
-  isLoading: boolean;
   error: TranscriptionError | null;
   results: TranscriptionResult[];
-  currentFile: AudioFile | null;
-  batchProgress?: BatchProgress;
+  queue: QueueJob[];
 }
 
 export interface SettingsState {
@@ -0,0 +1,112 @@
+import type { ActionItem, SummaryData, TranscriptionResult, TranscriptionSegment } from '../types';
+import type { ExtractedActionItem } from './summarySchema';
+import { getSummaryLanguages } from './languages';
+
+export interface OpenActionItem {
+  item: ActionItem;
+  result: TranscriptionResult;
+}
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+// Share of a quote's words a segment needs when the quote isn't found word for word
+const MIN_QUOTE_OVERLAP = 0.6;
+
+/**
+ * Where in the recording a quote was said: the segment containing it, or failing that (quotes get paraphrased,
+ * or run across segments) the one sharing most of its words.
+ */
+export function findQuoteTime(segments: TranscriptionSegment[] = [], quote?: string): number | undefined {
+  const target = quote && normalize(quote);
+  if (!target || segments.length === 0) return undefined;
+
+  const texts = segments.map(segment => normalize(segment.text));
+  const inOne = texts.findIndex(text => text.includes(target));
+  if (inOne !== -1) return segments[inOne].start;
+  const acrossTwo = texts.findIndex((text, i) => i + 1 < texts.length && `${text} ${texts[i + 1]}`.includes(target));
+  if (acrossTwo !== -1) return segments[acrossTwo].start;
+
+  const words = new Set(target.split(' '));
+  let best: { start: number; overlap: number } | undefined;
+  for (const segment of segments) {
+    const segmentWords = new Set(normalize(segment.text).split(' '));
+    const overlap = [...words].filter(word => segmentWords.has(word)).length / words.size;
+    if (overlap >= MIN_QUOTE_OVERLAP && (!best || overlap > best.overlap)) best = { start: segment.start, overlap };
+  }
+  return best?.start;
+}
+
+/**
+ * Turns the model's action items into tracked ones, placed in the recording by their quotes
+ */
+export const createActionItems = (extracted: ExtractedActionItem[], segments?: TranscriptionSegment[]): ActionItem[] =>
+  extracted.map(({ quote, ...item }) => ({
+    ...item,
+    id: crypto.randomUUID(),
+    timestamp: findQuoteTime(segments, quote),
+    status: 'open',
+  }));
+
+/**
+ * Keeps the progress made on action items when the summary is written again: a new item describing the same
+ * task as an old one, in any language, takes over its id and status.
+ */
+export function carryOverActionItems(previous: ActionItem[] = [], next: ActionItem[] = []): ActionItem[] {
+  const unmatched = [...previous];
+  return next.map(item => {
+    const descriptions = new Set(Object.values(item.description).map(normalize));
+    const index = unmatched.findIndex(old => Object.values(old.description).some(text => descriptions.has(normalize(text))));
+    if (index === -1) return item;
+    const [old] = unmatched.splice(index, 1);
+    return { ...item, id: old.id, status: old.status, completedAt: old.completedAt };
+  });
+}
+
+/**
+ * An item's description in the given language, falling back to the first one it has
+ */
+export const getActionItemDescription = (item: ActionItem, code?: string): string =>
+  (code && item.description[code]) || Object.values(item.description)[0] || '';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * YYYY-MM-DD in local time, the format due dates are written in
+ */
+export const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const isOverdue = (item: ActionItem, today: Date = new Date()): boolean =>
+  item.status === 'open' && !!item.dueDate && ISO_DATE.test(item.dueDate) && item.dueDate < toDateString(today);
+
+/**
+ * One line per item for exports, e.g. "Send the deck (Dana, due 2025-03-14)"
+ */
+export function formatActionItem(item: ActionItem, code?: string): string {
+  const details = [item.owner, item.dueDate && `due ${item.dueDate}`].filter(Boolean).join(', ');
+  return `${getActionItemDescription(item, code)}${details ? ` (${details})` : ''}`;
+}
+
+/**
+ * A summary's action items for exports, in its first language
+ */
+export const getActionItemLines = (summary: SummaryData): Array<{ text: string; done: boolean }> =>
+  (summary.actionItems ?? []).map(item => ({ text: formatActionItem(item, getSummaryLanguages(summary)[0]), done: item.status === 'done' }));
+
+/**
+ * Every open action item in the library: dated ones first, soonest first, then by recording, newest first
+ */
+export function collectOpenActionItems(results: TranscriptionResult[]): OpenActionItem[] {
+  const open = results.flatMap(result =>
+    (result.summary?.actionItems ?? []).filter(item => item.status === 'open').map(item => ({ item, result }))
+  );
+
+  const dateOf = ({ item }: OpenActionItem) => item.dueDate && ISO_DATE.test(item.dueDate) ? item.dueDate : undefined;
+  return open.sort((a, b) => {
+    const dueA = dateOf(a);
+    const dueB = dateOf(b);
+    if (dueA !== dueB) return !dueA ? 1 : !dueB ? -1 : dueA.localeCompare(dueB);
+    return b.result.createdAt.getTime() - a.result.createdAt.getTime();
+  });
+}
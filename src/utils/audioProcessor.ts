@@ -1,8 +1,12 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import type { TranscriptionSegment } from '../types';
+
 export interface AudioChunk {
   file: File;
   index: number;
   startTime: number;
   duration: number;
+  overlap: number; // seconds at the start of this chunk that repeat the end of the previous one
 }
 
 export interface ChunkingProgress {
@@ -34,71 +38,404 @@ export async function getAudioDuration(file: File): Promise<number> {
   });
 }
 
+export interface ChunkingOptions {
+  maxChunkSize?: number; // bytes, per chunk
+  chunkDuration?: number; // seconds, upper bound per chunk
+  overlapDuration?: number; // seconds shared between consecutive chunks
+  silenceSearchWindow?: number; // seconds before each target cut to look for a pause
+  signal?: AbortSignal;
+}
+
+export interface DecodedAudio {
+  samples: Float32Array; // mono PCM
+  sampleRate: number;
+  duration: number;
+}
+
+// Whisper resamples to 16 kHz mono internally, so anything above that is wasted bytes
+export const TARGET_SAMPLE_RATE = 16000;
+const DEFAULT_CHUNK_DURATION = 10 * 60; // 10 minutes
+const WAV_HEADER_SIZE = 44;
+const DEFAULT_OVERLAP_DURATION = 2;
+const DEFAULT_SILENCE_SEARCH_WINDOW = 30;
+const ENERGY_FRAME_DURATION = 0.02; // 20ms analysis frames
+const MIN_SILENCE_DURATION = 0.3;
+const STITCH_WORDS_PER_SECOND = 3.5; // brisk speech, so the stitch window covers everything said in an overlap
+const STITCH_SLACK_WORDS = 1; // half-words Whisper may produce right at a cut
+const MIN_STITCH_MATCH = 3;
+const MAX_STORED_AUDIO_SIZE = 10 * 1024 * 1024; // larger recordings are kept as a compressed copy
+const STORED_AUDIO_BITRATE = '24k';
+const FFMPEG_INPUT_DIR = '/input';
+
+/**
+ * Makes a file readable by FFmpeg by mounting it rather than copying it into the wasm heap, which recordings
+ * of a gigabyte or more don't fit in. Returns the path to pass to `-i`.
+ */
+export async function mountFFmpegInput(ffmpeg: FFmpeg, file: File): Promise<string> {
+  const { FFFSType } = await import('@ffmpeg/ffmpeg');
+  await ffmpeg.createDir(FFMPEG_INPUT_DIR);
+  await ffmpeg.mount(FFFSType.WORKERFS, { files: [file] }, FFMPEG_INPUT_DIR);
+  return `${FFMPEG_INPUT_DIR}/${file.name}`;
+}
+
+/**
+ * Decodes an audio file to mono 16 kHz PCM.
+ * Tries the browser's native decoder first and falls back to FFmpeg-wasm for containers it can't handle.
+ */
+export async function decodeAudioFile(file: File, signal?: AbortSignal): Promise<DecodedAudio> {
+  try {
+    return await decodeWithWebAudio(file);
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.warn(`⚠️ [DECODE] Web Audio decoding failed, falling back to FFmpeg:`, error);
+    return await decodeWithFFmpeg(file, signal);
+  }
+}
+
+async function decodeWithWebAudio(file: File): Promise<DecodedAudio> {
+  console.log(`🎧 [DECODE] Decoding with Web Audio API: ${file.name}`);
+  // decodeAudioData resamples to the context's sample rate
+  const context = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+  const audioBuffer = await context.decodeAudioData(await file.arrayBuffer());
+
+  let samples: Float32Array;
+  if (audioBuffer.numberOfChannels === 1) {
+    samples = audioBuffer.getChannelData(0);
+  } else {
+    // Downmix to mono
+    samples = new Float32Array(audioBuffer.length);
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      const channelData = audioBuffer.getChannelData(channel);
+      for (let i = 0; i < channelData.length; i++) {
+        samples[i] += channelData[i] / audioBuffer.numberOfChannels;
+      }
+    }
+  }
+
+  return { samples, sampleRate: audioBuffer.sampleRate, duration: audioBuffer.duration };
+}
+
+async function decodeWithFFmpeg(file: File, signal?: AbortSignal): Promise<DecodedAudio> {
+  console.log(`🔧 [DECODE] Decoding with FFmpeg: ${file.name}`);
+  const { FFmpeg } = await import('@ffmpeg/ffmpeg');
+
+  const ffmpeg = new FFmpeg();
+  const terminateOnAbort = () => ffmpeg.terminate();
+  signal?.addEventListener('abort', terminateOnAbort, { once: true });
+  await ffmpeg.load();
+
+  try {
+    const inputFileName = await mountFFmpegInput(ffmpeg, file);
+    const outputFileName = 'decoded.pcm';
+    await ffmpeg.exec([
+      '-i', inputFileName,
+      '-vn',                              // No video
+      '-ac', '1',                         // Mono
+      '-ar', TARGET_SAMPLE_RATE.toString(),
+      '-f', 'f32le',                      // Raw 32-bit float PCM
+      outputFileName
+    ]);
+
+    const data = await ffmpeg.readFile(outputFileName);
+    if (typeof data === 'string' || data.byteLength === 0) {
+      throw new Error('FFmpeg produced no audio data');
+    }
+
+    // Copy into an aligned buffer before viewing it as floats
+    const samples = new Float32Array(data.slice().buffer, 0, Math.floor(data.byteLength / 4));
+    return { samples, sampleRate: TARGET_SAMPLE_RATE, duration: samples.length / TARGET_SAMPLE_RATE };
+  } finally {
+    signal?.removeEventListener('abort', terminateOnAbort);
+    ffmpeg.terminate();
+  }
+}
+
 /**
- * Splits an audio file into chunks using FFmpeg-wasm or Web Audio API
- * For now, we'll use a simpler approach by splitting the file into time-based chunks
+ * Picks the copy of a recording to keep for playback.
+ * Small files are kept as-is; larger ones are re-encoded as mono Opus, falling back to the original if that fails.
+ */
+export async function prepareAudioForStorage(file: File): Promise<{ blob: Blob; compressed: boolean }> {
+  if (file.size <= MAX_STORED_AUDIO_SIZE) {
+    return { blob: file, compressed: false };
+  }
+
+  console.log(`🔧 [STORE] Compressing ${file.name} for playback storage`);
+  let ffmpeg: FFmpeg | undefined;
+  try {
+    const { FFmpeg } = await import('@ffmpeg/ffmpeg');
+    ffmpeg = new FFmpeg();
+    await ffmpeg.load();
+
+    const inputFileName = await mountFFmpegInput(ffmpeg, file);
+    const outputFileName = 'playback.ogg';
+    await ffmpeg.exec([
+      '-i', inputFileName,
+      '-vn',                              // No video
+      '-map_metadata', '-1',              // Remove metadata
+      '-ac', '1',                         // Mono
+      '-c:a', 'libopus',
+      '-b:a', STORED_AUDIO_BITRATE,       // Higher than the transcription copy - this one is for listening
+      outputFileName
+    ]);
+
+    const data = await ffmpeg.readFile(outputFileName);
+    if (typeof data === 'string' || data.byteLength === 0) {
+      throw new Error('FFmpeg produced no audio data');
+    }
+
+    const blob = new Blob([data], { type: 'audio/ogg' });
+    console.log(`✅ [STORE] Playback copy: ${(file.size / 1024 / 1024).toFixed(2)} MB -> ${(blob.size / 1024 / 1024).toFixed(2)} MB`);
+    return { blob, compressed: true };
+  } catch (error) {
+    console.warn(`⚠️ [STORE] Compression failed, keeping the original file:`, error);
+    return { blob: file, compressed: false };
+  } finally {
+    ffmpeg?.terminate();
+  }
+}
+
+/**
+ * Encodes mono PCM samples as a 16-bit WAV blob
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(WAV_HEADER_SIZE + samples.length * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);             // PCM chunk size
+  view.setUint16(20, 1, true);              // PCM format
+  view.setUint16(22, 1, true);              // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true);              // Block align
+  view.setUint16(34, 16, true);             // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  let offset = WAV_HEADER_SIZE;
+  for (let i = 0; i < samples.length; i++, offset += 2) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Resamples mono PCM, averaging when downsampling and interpolating when upsampling
+ */
+export function resampleAudio(samples: Float32Array, fromRate: number, toRate: number = TARGET_SAMPLE_RATE): Float32Array {
+  if (fromRate === toRate) return samples;
+
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    if (ratio > 1) {
+      const start = Math.floor(position);
+      const end = Math.min(samples.length, Math.floor(position + ratio));
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += samples[j];
+      output[i] = sum / Math.max(1, end - start);
+    } else {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const next = samples[Math.min(index + 1, samples.length - 1)];
+      output[i] = samples[index] + (next - samples[index]) * fraction;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Computes RMS energy (in dB) for consecutive fixed-size frames
+ */
+function computeFrameEnergies(samples: Float32Array, frameSize: number): Float32Array {
+  const frameCount = Math.ceil(samples.length / frameSize);
+  const energies = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * frameSize;
+    const end = Math.min(samples.length, start + frameSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    const rms = Math.sqrt(sum / Math.max(1, end - start));
+    energies[frame] = 20 * Math.log10(rms + 1e-10);
+  }
+
+  return energies;
+}
+
+/**
+ * Picks the quietest point in a frame range.
+ * Prefers the middle of the longest run of frames under the silence threshold,
+ * and falls back to the lowest-energy frame when nobody stops talking.
+ */
+function findQuietestFrame(
+  energies: Float32Array,
+  startFrame: number,
+  endFrame: number,
+  threshold: number,
+  minSilenceFrames: number
+): number {
+  let bestRunStart = -1;
+  let bestRunLength = 0;
+  let runStart = -1;
+  let quietestFrame = endFrame - 1;
+
+  for (let frame = startFrame; frame < endFrame; frame++) {
+    if (energies[frame] < energies[quietestFrame]) {
+      quietestFrame = frame;
+    }
+
+    if (energies[frame] < threshold) {
+      if (runStart === -1) runStart = frame;
+      const runLength = frame - runStart + 1;
+      // Ties go to the later run so chunks stay close to the target length
+      if (runLength >= bestRunLength) {
+        bestRunStart = runStart;
+        bestRunLength = runLength;
+      }
+    } else {
+      runStart = -1;
+    }
+  }
+
+  if (bestRunLength >= minSilenceFrames) {
+    return bestRunStart + Math.floor(bestRunLength / 2);
+  }
+  return quietestFrame;
+}
+
+/**
+ * Finds chunk boundaries (in samples) placed at pauses in speech.
+ * Each boundary is searched for in the window just before the target chunk length,
+ * so chunks never exceed the target and rarely cut through a word.
+ */
+export function findSilenceBoundaries(
+  samples: Float32Array,
+  sampleRate: number,
+  targetDuration: number,
+  searchWindow: number = DEFAULT_SILENCE_SEARCH_WINDOW
+): number[] {
+  const frameSize = Math.max(1, Math.round(ENERGY_FRAME_DURATION * sampleRate));
+  const energies = computeFrameEnergies(samples, frameSize);
+
+  // Adaptive threshold: a little above the recording's noise floor, but always clearly below typical speech
+  const sorted = Float32Array.from(energies).sort();
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.05)] ?? -100;
+  const speechLevel = sorted[Math.floor(sorted.length * 0.5)] ?? 0;
+  const threshold = Math.min(
+    noiseFloor + Math.max(3, (speechLevel - noiseFloor) * 0.3),
+    speechLevel - 6
+  );
+
+  const framesPerChunk = Math.max(1, Math.floor(targetDuration / ENERGY_FRAME_DURATION));
+  const searchFrames = Math.min(
+    Math.floor(searchWindow / ENERGY_FRAME_DURATION),
+    Math.floor(framesPerChunk / 2)
+  );
+  const minSilenceFrames = Math.ceil(MIN_SILENCE_DURATION / ENERGY_FRAME_DURATION);
+
+  const boundaries: number[] = [];
+  let chunkStartFrame = 0;
+
+  while (energies.length - chunkStartFrame > framesPerChunk) {
+    const targetFrame = chunkStartFrame + framesPerChunk;
+    const cutFrame = findQuietestFrame(energies, targetFrame - searchFrames, targetFrame, threshold, minSilenceFrames);
+    boundaries.push(cutFrame * frameSize);
+    chunkStartFrame = cutFrame;
+  }
+
+  return boundaries;
+}
+
+/**
+ * Splits an audio file into independently playable chunks.
+ * The file is decoded to mono 16 kHz PCM and each time range is re-encoded as its own WAV file,
+ * so every chunk is a valid upload with an exact start time and duration.
  */
 export async function chunkAudioFile(
   file: File, 
-  maxChunkSize: number = 25 * 1024 * 1024, // 25MB
+  options: ChunkingOptions = {},
   onProgress?: (progress: ChunkingProgress) => void
 ): Promise<AudioChunk[]> {
+  const {
+    maxChunkSize = 25 * 1024 * 1024,
+    chunkDuration = DEFAULT_CHUNK_DURATION,
+    overlapDuration = DEFAULT_OVERLAP_DURATION,
+    silenceSearchWindow = DEFAULT_SILENCE_SEARCH_WINDOW,
+    signal,
+  } = options;
+
   try {
     console.log(`🔍 [CHUNKING] Started analyzing large file: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`);
     onProgress?.({ phase: 'analyzing', currentChunk: 0, totalChunks: 0, progress: 0 });
     
-    // Get audio duration
-    console.log(`⏱️ [CHUNKING] Extracting audio duration...`);
-    const duration = await getAudioDuration(file);
-    console.log(`✅ [CHUNKING] Audio duration extracted: ${duration.toFixed(2)} seconds`);
-    
-    // Estimate chunks needed based on file size and target chunk size
-    const estimatedChunks = Math.ceil(file.size / maxChunkSize);
-    const chunkDuration = duration / estimatedChunks;
+    // Decode the whole file once
+    console.log(`🎧 [CHUNKING] Decoding audio...`);
+    const { samples, sampleRate, duration } = await decodeAudioFile(file, signal);
+    signal?.throwIfAborted();
+    console.log(`✅ [CHUNKING] Audio decoded: ${duration.toFixed(2)} seconds at ${sampleRate} Hz`);
+
+    // Keep each WAV chunk (including its overlap) safely under the upload limit
+    const maxDurationBySize = ((maxChunkSize - WAV_HEADER_SIZE) / (sampleRate * 2)) * 0.95;
+    const overlap = Math.max(0, Math.min(overlapDuration, chunkDuration / 4));
+    const targetDuration = Math.min(chunkDuration, maxDurationBySize) - overlap;
+
+    // Cut at pauses rather than at fixed offsets
+    console.log(`🔇 [CHUNKING] Detecting silences for chunk boundaries...`);
+    const boundaries = findSilenceBoundaries(samples, sampleRate, targetDuration, silenceSearchWindow);
+    const cutPoints = [0, ...boundaries, samples.length];
+    const totalChunks = cutPoints.length - 1;
+    const overlapSamples = Math.floor(overlap * sampleRate);
     
     console.log(`📊 [CHUNKING] File analysis complete:`, {
       originalSize: `${(file.size / 1024 / 1024).toFixed(2)} MB`,
       duration: `${duration.toFixed(2)}s`,
-      estimatedChunks,
-      chunkDuration: `${chunkDuration.toFixed(2)}s per chunk`,
+      totalChunks,
+      targetChunkDuration: `${targetDuration.toFixed(2)}s per chunk`,
+      overlap: `${overlap.toFixed(2)}s`,
+      boundaries: boundaries.map(b => `${(b / sampleRate).toFixed(1)}s`),
       maxChunkSize: `${(maxChunkSize / 1024 / 1024).toFixed(2)} MB`
     });
     
-    onProgress?.({ phase: 'chunking', currentChunk: 0, totalChunks: estimatedChunks, progress: 0 });
+    onProgress?.({ phase: 'chunking', currentChunk: 0, totalChunks, progress: 0 });
     
     const chunks: AudioChunk[] = [];
+    const baseName = file.name.replace(/\.[^/.]+$/, '');
     
-    console.log(`✂️ [CHUNKING] Starting file splitting into ${estimatedChunks} chunks...`);
-    // For web-based chunking, we'll split the file data directly
-    // This is a simplified approach - in production, you'd want proper audio processing
-    const chunkSize = Math.floor(file.size / estimatedChunks);
-    const buffer = await file.arrayBuffer();
-    console.log(`📦 [CHUNKING] File buffer loaded (${buffer.byteLength} bytes)`);
-    
-    for (let i = 0; i < estimatedChunks; i++) {
-      console.log(`📝 [CHUNKING] Creating chunk ${i + 1}/${estimatedChunks}...`);
+    console.log(`✂️ [CHUNKING] Encoding ${totalChunks} chunks...`);
+    for (let i = 0; i < totalChunks; i++) {
+      signal?.throwIfAborted();
       
-      const start = i * chunkSize;
-      const end = i === estimatedChunks - 1 ? buffer.byteLength : (i + 1) * chunkSize;
+      // Every chunk after the first reaches back into the previous one by the overlap window
+      const startSample = Math.max(0, cutPoints[i] - (i > 0 ? overlapSamples : 0));
+      const endSample = cutPoints[i + 1];
       
-      // Create a new file blob for this chunk
-      const chunkBuffer = buffer.slice(start, end);
-      const chunkBlob = new Blob([chunkBuffer], { type: file.type });
+      const chunkBlob = encodeWav(samples.subarray(startSample, endSample), sampleRate);
+      const chunkFileName = `${baseName}_chunk_${i + 1}.wav`;
+      const chunkFile = new File([chunkBlob], chunkFileName, { type: 'audio/wav' });
       
-      // Get file extension
-      const extension = file.name.split('.').pop() || 'mp3';
-      const chunkFileName = `${file.name.replace(/\.[^/.]+$/, '')}_chunk_${i + 1}.${extension}`;
-      const chunkFile = new File(
-        [chunkBlob], 
-        chunkFileName,
-        { type: file.type }
-      );
-      
-      const chunk = {
+      const chunk: AudioChunk = {
         file: chunkFile,
         index: i,
-        startTime: i * chunkDuration,
-        duration: chunkDuration
+        startTime: startSample / sampleRate,
+        duration: (endSample - startSample) / sampleRate,
+        overlap: (cutPoints[i] - startSample) / sampleRate
       };
       
       console.log(`✅ [CHUNKING] Chunk ${i + 1} created:`, {
@@ -106,6 +443,7 @@ export async function chunkAudioFile(
         size: `${(chunkFile.size / 1024 / 1024).toFixed(2)} MB`,
         startTime: `${chunk.startTime.toFixed(2)}s`,
         duration: `${chunk.duration.toFixed(2)}s`,
+        overlap: `${chunk.overlap.toFixed(2)}s`,
         index: chunk.index
       });
       
@@ -114,8 +452,8 @@ export async function chunkAudioFile(
       onProgress?.({ 
         phase: 'chunking', 
         currentChunk: i + 1, 
-        totalChunks: estimatedChunks, 
-        progress: ((i + 1) / estimatedChunks) * 100 
+        totalChunks, 
+        progress: ((i + 1) / totalChunks) * 100 
       });
     }
     
@@ -134,6 +472,61 @@ export async function chunkAudioFile(
   }
 }
 
+const normalizeWord = (word: string): string => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+/**
+ * Joins two consecutive transcripts whose audio overlapped by `overlapDuration` seconds.
+ * Looks for the longest run of words that ends `previous` and starts `next` (give or take a half-word
+ * at either cut) and keeps it once. Runs elsewhere in the window are coincidences, like a repeated
+ * "of the", so without a run at the seam both texts are kept whole.
+ */
+export function stitchTranscripts(previous: string, next: string, overlapDuration: number): string {
+  const previousWords = previous.split(/\s+/).filter(Boolean);
+  const nextWords = next.split(/\s+/).filter(Boolean);
+  
+  if (previousWords.length === 0) return nextWords.join(' ');
+  if (nextWords.length === 0) return previousWords.join(' ');
+  
+  // Only words that could have been spoken in the overlap are candidates
+  const windowWords = Math.ceil(overlapDuration * STITCH_WORDS_PER_SECOND) + STITCH_SLACK_WORDS;
+  const minMatch = Math.max(MIN_STITCH_MATCH, Math.floor(windowWords / 3));
+  const tailStart = Math.max(0, previousWords.length - windowWords);
+  const tail = previousWords.slice(tailStart).map(normalizeWord);
+  const head = nextWords.slice(0, windowWords).map(normalizeWord);
+  
+  // Longest common run of words anchored at both cuts, tracked with a single rolling DP row
+  const runLengths = new Array<number>(head.length + 1).fill(0);
+  let bestLength = 0;
+  let bestTailEnd = 0;
+  let bestHeadEnd = 0;
+  
+  for (let i = 1; i <= tail.length; i++) {
+    for (let j = head.length; j >= 1; j--) {
+      if (tail[i - 1] && tail[i - 1] === head[j - 1]) {
+        runLengths[j] = runLengths[j - 1] + 1;
+        const reachesEnd = tail.length - i <= STITCH_SLACK_WORDS;
+        const reachesStart = j - runLengths[j] <= STITCH_SLACK_WORDS;
+        if (reachesEnd && reachesStart && runLengths[j] > bestLength) {
+          bestLength = runLengths[j];
+          bestTailEnd = i;
+          bestHeadEnd = j;
+        }
+      } else {
+        runLengths[j] = 0;
+      }
+    }
+  }
+  
+  if (bestLength < minMatch) {
+    return [...previousWords, ...nextWords].join(' ');
+  }
+  
+  return [
+    ...previousWords.slice(0, tailStart + bestTailEnd),
+    ...nextWords.slice(bestHeadEnd)
+  ].join(' ');
+}
+
 /**
  * Combines transcription results from multiple chunks
  */
@@ -166,11 +559,16 @@ export function combineChunkResults(
     textLength: r.transcription.length
   })));
   
-  // Join transcriptions with a space, removing extra whitespace
+  // Stitch each transcript onto the previous one, de-duplicating words spoken in the overlap
   const combinedText = sortedResults
-    .map(result => result.transcription.trim())
-    .filter(text => text.length > 0)
-    .join(' ')
+    .reduce((combined, result) => {
+      const text = result.transcription.trim();
+      if (!text) return combined;
+      if (!combined) return text;
+      return result.chunk.overlap > 0
+        ? stitchTranscripts(combined, text, result.chunk.overlap)
+        : `${combined} ${text}`;
+    }, '')
     .replace(/\s+/g, ' ')
     .trim();
     
@@ -185,6 +583,59 @@ export function combineChunkResults(
   return combinedText;
 }
 
+/**
+ * Combines timed segments from multiple chunks onto the recording's timeline.
+ * Each chunk's segments are shifted by its start time; within an overlap window,
+ * segments are owned by whichever chunk their midpoint falls in, so nothing is listed twice.
+ * Each chunk is diarized on its own, so speaker ids are kept apart per chunk;
+ * giving two of them the same name merges them.
+ */
+export function combineChunkSegments(
+  chunks: AudioChunk[],
+  segmentLists: TranscriptionSegment[][]
+): TranscriptionSegment[] {
+  if (chunks.length !== segmentLists.length) {
+    throw new Error('Chunk and segment arrays must have the same length');
+  }
+
+  const sortedResults = chunks
+    .map((chunk, index) => ({ chunk, segments: segmentLists[index] }))
+    .sort((a, b) => a.chunk.index - b.chunk.index);
+
+  const combined: TranscriptionSegment[] = [];
+
+  sortedResults.forEach(({ chunk, segments }, position) => {
+    // The seam with the previous chunk sits at the end of this chunk's overlap
+    const ownedFrom = chunk.startTime + chunk.overlap;
+    const next = sortedResults[position + 1]?.chunk;
+    const ownedUntil = next ? next.startTime + next.overlap : Infinity;
+
+    for (const segment of segments) {
+      const start = segment.start + chunk.startTime;
+      const end = segment.end + chunk.startTime;
+      const midpoint = (start + end) / 2;
+      if ((position > 0 && midpoint < ownedFrom) || midpoint >= ownedUntil) continue;
+
+      combined.push({
+        ...segment,
+        id: combined.length,
+        start,
+        end,
+        speaker: segment.speaker && sortedResults.length > 1 ? `${chunk.index + 1}:${segment.speaker}` : segment.speaker,
+        words: segment.words?.map(word => ({
+          ...word,
+          start: word.start + chunk.startTime,
+          end: word.end + chunk.startTime,
+        })),
+      });
+    }
+  });
+
+  console.log(`✅ [COMBINE] Segment combination completed: ${combined.length} segments from ${chunks.length} chunks`);
+
+  return combined;
+}
+
 /**
  * Estimates processing time for batch transcription
  */
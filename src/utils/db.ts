@@ -0,0 +1,262 @@
+import type { ActionItem, LocalizedSummary, SummaryData, TranscriptionError, TranscriptionResult } from '../types';
+
+const DB_NAME = 'quicktranscriber';
+
+// Where results lived before they moved to IndexedDB
+const LEGACY_RESULTS_KEY = 'quicktranscriber_results';
+
+export const DB_STORES = {
+  JOBS: 'jobs',
+  JOB_FILES: 'jobFiles',
+  RESULTS: 'results',
+  AUDIO: 'audio',
+} as const;
+
+type StoreName = typeof DB_STORES[keyof typeof DB_STORES];
+
+/**
+ * Schema upgrade steps, applied in order.
+ * The database version is the number of steps, so add new steps to the end and never edit old ones.
+ */
+const upgrades: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  // v1: resumable batch jobs and their source files
+  (db) => {
+    db.createObjectStore(DB_STORES.JOBS, { keyPath: 'id' });
+    db.createObjectStore(DB_STORES.JOB_FILES);
+  },
+  // v2: transcription results, moved over from localStorage
+  (db, transaction) => {
+    const results = db.createObjectStore(DB_STORES.RESULTS, { keyPath: 'id' });
+    results.createIndex('createdAt', 'createdAt');
+    results.createIndex('audioFileName', 'audioFileName');
+
+    const legacyResults = readLegacyResults();
+    legacyResults.forEach(result => results.put(result));
+    console.log(`🗄️ [DB] Migrated ${legacyResults.length} results from localStorage`);
+
+    // Only drop the old copy once the migrated records are safely committed
+    transaction.addEventListener('complete', () => localStorage.removeItem(LEGACY_RESULTS_KEY));
+  },
+  // v3: recordings kept for playback, keyed by result id
+  (db) => {
+    db.createObjectStore(DB_STORES.AUDIO);
+  },
+  // v4: summaries keyed by language code instead of paired English/Hebrew fields
+  (_db, transaction) => {
+    let migrated = 0;
+    const cursorRequest = transaction.objectStore(DB_STORES.RESULTS).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        console.log(`🗄️ [DB] Migrated ${migrated} summaries to per-language content`);
+        return;
+      }
+      const result: TranscriptionResult = cursor.value;
+      if (result.summary && !('languages' in result.summary)) {
+        cursor.update({ ...result, summary: migrateLegacySummary(result.summary as unknown as LegacySummaryData) });
+        migrated++;
+      }
+      cursor.continue();
+    };
+  },
+  // v5: plain action item lists become tracked action items, so older recordings show up as open too
+  (_db, transaction) => {
+    let migrated = 0;
+    const cursorRequest = transaction.objectStore(DB_STORES.RESULTS).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        console.log(`🗄️ [DB] Migrated ${migrated} summaries to tracked action items`);
+        return;
+      }
+      const result: TranscriptionResult = cursor.value;
+      // Summaries still in the pre-v4 shape get both steps from v4's own cursor
+      if (result.summary && 'languages' in result.summary && !result.summary.actionItems) {
+        cursor.update({ ...result, summary: trackLegacyActionItems(result.summary as UntrackedSummaryData) });
+        migrated++;
+      }
+      cursor.continue();
+    };
+  },
+];
+
+export const DB_VERSION = upgrades.length;
+
+// How summaries were stored before v4
+interface LegacySummaryData extends Omit<SummaryData, 'languages' | 'actionItems'> {
+  englishTitle?: string;
+  hebrewTitle?: string;
+  english: string;
+  hebrew: string;
+  keyPoints: string[];
+  hebrewKeyPoints?: string[];
+  insights?: string[];
+  hebrewInsights?: string[];
+  actionItems?: string[];
+  hebrewActionItems?: string[];
+  participants?: string[];
+  hebrewParticipants?: string[];
+  timeline?: string;
+  hebrewTimeline?: string;
+}
+
+// How summaries were stored before v5: each language with its own plain list of action items
+interface UntrackedSummaryData extends Omit<SummaryData, 'languages'> {
+  languages: Record<string, LocalizedSummary & { actionItems?: string[] }>;
+}
+
+/**
+ * Turns each language's action item list into tracked, open items. The lists are translations of each other,
+ * so items are paired up by position.
+ */
+function trackLegacyActionItems(summary: UntrackedSummaryData): SummaryData {
+  const lists: Record<string, string[]> = {};
+  const languages = Object.fromEntries(Object.entries(summary.languages).map(([code, { actionItems, ...localized }]) => {
+    lists[code] = actionItems ?? [];
+    return [code, localized];
+  }));
+
+  const [primary = []] = Object.values(lists);
+  const actionItems = primary.map((_, index): ActionItem => ({
+    id: crypto.randomUUID(),
+    description: Object.fromEntries(Object.entries(lists).flatMap(([code, list]) => list[index] ? [[code, list[index]]] : [])),
+    status: 'open',
+  }));
+  return { ...summary, languages, actionItems };
+}
+
+/**
+ * Moves the English and Hebrew fields of an old summary under their language codes.
+ * Hebrew is only kept when the summary actually had some.
+ */
+function migrateLegacySummary(legacy: LegacySummaryData): SummaryData {
+  const {
+    englishTitle, hebrewTitle, english, hebrew, keyPoints, hebrewKeyPoints, insights, hebrewInsights,
+    actionItems, hebrewActionItems, participants, hebrewParticipants, timeline, hebrewTimeline, ...shared
+  } = legacy;
+
+  const languages: UntrackedSummaryData['languages'] = {
+    en: { title: englishTitle, summary: english ?? '', keyPoints: keyPoints ?? [], insights, actionItems, participants, timeline },
+  };
+  if (hebrew || hebrewTitle || hebrewKeyPoints?.length) {
+    languages.he = {
+      title: hebrewTitle,
+      summary: hebrew ?? '',
+      keyPoints: hebrewKeyPoints ?? [],
+      insights: hebrewInsights,
+      actionItems: hebrewActionItems,
+      participants: hebrewParticipants,
+      timeline: hebrewTimeline,
+    };
+  }
+
+  // The v5 step may have passed this record over while it was in the old shape, so its work is done here too
+  return trackLegacyActionItems({ ...shared, languages });
+}
+
+/**
+ * Reads results saved by the localStorage-based store, restoring their dates
+ */
+function readLegacyResults(): TranscriptionResult[] {
+  try {
+    const stored = localStorage.getItem(LEGACY_RESULTS_KEY);
+    if (!stored) return [];
+
+    const parsed: TranscriptionResult[] = JSON.parse(stored);
+    return parsed.map(result => ({
+      ...result,
+      createdAt: new Date(result.createdAt),
+      summary: result.summary ? {
+        ...result.summary,
+        createdAt: new Date(result.summary.createdAt)
+      } : undefined
+    }));
+  } catch (error) {
+    console.error('Failed to read legacy results:', error);
+    return [];
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Raised when a tab still running an older version keeps the schema from upgrading
+export const DATABASE_BLOCKED_ERROR: TranscriptionError = {
+  message: 'QuickTranscriber was updated in this tab but is still open in another one. Close the other tabs, then reload this page.',
+  type: 'storage_error',
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens (and upgrades, if needed) the app database. The connection is shared across calls.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          console.log(`🗄️ [DB] Upgrading schema to v${version + 1}`);
+          upgrades[version](db, transaction);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Opened after the other tab closed, but this attempt was already given up on
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version open in another tab rather than block its upgrade; the next call reconnects
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+      // An older tab that doesn't give way would otherwise leave this open pending forever
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(DATABASE_BLOCKED_ERROR);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs `action` inside a single transaction and resolves once the transaction commits
+ */
+export const withStores = async <T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  action: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+  // If `action` throws, its error is the one that matters - don't leave this rejection unhandled
+  completed.catch(() => undefined);
+
+  const result = await action(transaction);
+  await completed;
+  return result;
+};
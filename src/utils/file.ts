@@ -26,6 +26,18 @@ export const formatDuration = (seconds: number): string => {
   return `${hours}h ${remainingMinutes}m ${remainingSeconds}s`;
 };
 
+export const formatTimestamp = (seconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const remainingSeconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(remainingSeconds)}`
+    : `${minutes}:${pad(remainingSeconds)}`;
+};
+
 export const createFilePreview = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -61,6 +73,47 @@ export const isAudioFile = (file: File): boolean => {
   return isMimeTypeAudio || isExtensionAudio;
 };
 
+// Containers that carry a video track; mp4/webm are only treated as video when the browser says so
+const VIDEO_EXTENSIONS = ['mov', 'mkv', 'avi', 'm4v', 'wmv', 'flv', 'mpg', 'mpeg', '3gp'];
+
+export const isVideoFile = (file: File): boolean => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  return file.type.startsWith('video/') || (extension ? VIDEO_EXTENSIONS.includes(extension) : false);
+};
+
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise(resolve => (entry as FileSystemFileEntry).file(file => resolve([file]), () => resolve([])));
+  }
+  if (!entry.isDirectory) return [];
+
+  // readEntries returns results in batches, so keep reading until it comes back empty
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>(resolve => reader.readEntries(resolve, () => resolve([])));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+  const nested = await Promise.all(entries.map(readEntryFiles));
+  return nested.flat();
+};
+
+/**
+ * Collects the files from a drop, walking into any dropped folders
+ */
+export const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files = (await Promise.all(entries.map(readEntryFiles))).flat();
+  return files.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
+
 export const getAudioDuration = (file: File): Promise<number> => {
   return new Promise((resolve, reject) => {
     const audio = new Audio();
@@ -0,0 +1,83 @@
+import type { ChunkTranscription, TranscriptionJob } from '../types';
+import { DB_STORES, requestToPromise, withStores } from './db';
+
+/**
+ * Persists long-running batch jobs (and their source files) in IndexedDB so they can be resumed after a reload
+ */
+export const jobStore = {
+  createJob: async (job: TranscriptionJob, file: File): Promise<void> => {
+    try {
+      await withStores([DB_STORES.JOBS, DB_STORES.JOB_FILES], 'readwrite', (transaction) => {
+        transaction.objectStore(DB_STORES.JOBS).put(job);
+        transaction.objectStore(DB_STORES.JOB_FILES).put(file, job.id);
+      });
+    } catch (error) {
+      console.error('Failed to save job:', error);
+    }
+  },
+
+  getJobs: async (): Promise<TranscriptionJob[]> => {
+    try {
+      const jobs = await withStores(DB_STORES.JOBS, 'readonly', (transaction) =>
+        requestToPromise<TranscriptionJob[]>(transaction.objectStore(DB_STORES.JOBS).getAll())
+      );
+      return jobs.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    } catch (error) {
+      console.error('Failed to load jobs:', error);
+      return [];
+    }
+  },
+
+  getJobFile: async (id: string): Promise<File | null> => {
+    try {
+      const file = await withStores(DB_STORES.JOB_FILES, 'readonly', (transaction) =>
+        requestToPromise<File | undefined>(transaction.objectStore(DB_STORES.JOB_FILES).get(id))
+      );
+      return file ?? null;
+    } catch (error) {
+      console.error('Failed to load job file:', error);
+      return null;
+    }
+  },
+
+  updateJob: async (id: string, updates: Partial<Omit<TranscriptionJob, 'id' | 'completedChunks'>>): Promise<void> => {
+    try {
+      await withStores(DB_STORES.JOBS, 'readwrite', async (transaction) => {
+        const store = transaction.objectStore(DB_STORES.JOBS);
+        const job = await requestToPromise<TranscriptionJob | undefined>(store.get(id));
+        if (job) {
+          store.put({ ...job, ...updates, updatedAt: new Date() });
+        }
+      });
+    } catch (error) {
+      console.error('Failed to update job:', error);
+    }
+  },
+
+  // Read-modify-write in one transaction, so concurrent chunks can't overwrite each other
+  addChunkResult: async (id: string, chunk: ChunkTranscription): Promise<void> => {
+    try {
+      await withStores(DB_STORES.JOBS, 'readwrite', async (transaction) => {
+        const store = transaction.objectStore(DB_STORES.JOBS);
+        const job = await requestToPromise<TranscriptionJob | undefined>(store.get(id));
+        if (job) {
+          const completedChunks = [...job.completedChunks.filter(c => c.index !== chunk.index), chunk];
+          store.put({ ...job, completedChunks, updatedAt: new Date() });
+        }
+      });
+    } catch (error) {
+      console.error('Failed to save chunk result:', error);
+    }
+  },
+
+  deleteJob: async (id: string): Promise<void> => {
+    try {
+      await withStores([DB_STORES.JOBS, DB_STORES.JOB_FILES], 'readwrite', (transaction) => {
+        transaction.objectStore(DB_STORES.JOBS).delete(id);
+        transaction.objectStore(DB_STORES.JOB_FILES).delete(id);
+      });
+    } catch (error) {
+      console.error('Failed to delete job:', error);
+    }
+  },
+};
@@ -0,0 +1,72 @@
+import type { LocalizedSummary, SummaryData } from '../types';
+
+export interface LanguageInfo {
+  code: string; // ISO 639-1
+  name: string; // in English, for prompts and settings
+  nativeName: string; // shown on the summary's language tabs
+  rtl?: boolean;
+}
+
+export const SUMMARY_LANGUAGES: LanguageInfo[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский' },
+  { code: 'uk', name: 'Ukrainian', nativeName: 'Українська' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe' },
+  { code: 'he', name: 'Hebrew', nativeName: 'עברית', rtl: true },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', rtl: true },
+  { code: 'fa', name: 'Persian', nativeName: 'فارسی', rtl: true },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+];
+
+// Summaries used to always come in English and Hebrew, so that stays the default
+export const DEFAULT_SUMMARY_LANGUAGES = ['en', 'he'];
+
+// Right-to-left scripts, including languages not offered in settings but possibly found in older summaries
+const RTL_LANGUAGES = new Set(['he', 'ar', 'fa', 'ur', 'yi', 'ps', 'sd', 'dv', 'ug', 'ckb']);
+
+/**
+ * Looks up a language by code, falling back to the bare code for languages not in the list
+ */
+export const getLanguageInfo = (code: string): LanguageInfo => {
+  const base = code.toLowerCase().split('-')[0];
+  return SUMMARY_LANGUAGES.find(language => language.code === base)
+    ?? { code, name: code.toUpperCase(), nativeName: code.toUpperCase(), rtl: RTL_LANGUAGES.has(base) };
+};
+
+export const isRTLLanguage = (code: string): boolean => RTL_LANGUAGES.has(code.toLowerCase().split('-')[0]);
+
+/**
+ * The languages a summary was written in, in the order they were requested
+ */
+export const getSummaryLanguages = (summary: SummaryData): string[] => Object.keys(summary.languages);
+
+/**
+ * The summary in its first language - what exports and result titles use
+ */
+export const getPrimarySummary = (summary: SummaryData): LocalizedSummary | undefined =>
+  summary.languages[getSummaryLanguages(summary)[0]];
+
+/**
+ * Whether any language's title, summary, key points, template sections or action items contain the query (already lower-cased)
+ */
+export const summaryMatches = (summary: SummaryData, query: string): boolean =>
+  Object.values(summary.languages).some(localized =>
+    [localized.title ?? '', localized.summary, ...localized.keyPoints, ...Object.values(localized.fields ?? {}).flat()]
+      .some(text => text.toLowerCase().includes(query))
+  ) ||
+  (summary.actionItems ?? []).some(item =>
+    [...Object.values(item.description), item.owner ?? ''].some(text => text.toLowerCase().includes(query))
+  );
+
+export const getSummaryTitle = (summary?: SummaryData): string | undefined =>
+  summary ? getPrimarySummary(summary)?.title : undefined;
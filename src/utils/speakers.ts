@@ -0,0 +1,129 @@
+import type { LocalizedSummary, SummaryData, TranscriptionResult, TranscriptionSegment } from '../types';
+
+export interface SpeakerTurn {
+  speaker: string; // id of the speaker, empty for segments nobody was attributed to
+  label: string;
+  start: number;
+  end: number;
+  segments: TranscriptionSegment[];
+}
+
+type SpeakerSource = Pick<TranscriptionResult, 'text' | 'segments' | 'speakers'>;
+
+/**
+ * Speaker ids in the order they first speak
+ */
+export const getSpeakerIds = (segments: TranscriptionSegment[] = []): string[] =>
+  [...new Set(segments.flatMap(segment => segment.speaker ? [segment.speaker] : []))];
+
+export const hasSpeakers = (segments?: TranscriptionSegment[]): boolean =>
+  segments?.some(segment => segment.speaker) ?? false;
+
+const defaultSpeakerLabel = (index: number): string => `Speaker ${index + 1}`;
+
+/**
+ * What each speaker is called: the name given to them, otherwise "Speaker N" in order of first appearance
+ */
+export const getSpeakerLabels = (result: SpeakerSource): Record<string, string> =>
+  Object.fromEntries(getSpeakerIds(result.segments).map((id, index) =>
+    [id, result.speakers?.[id]?.trim() || defaultSpeakerLabel(index)]
+  ));
+
+/**
+ * Groups consecutive segments by speaker. Turns go by label, so speakers given the same name run together.
+ */
+export function groupSpeakerTurns(segments: TranscriptionSegment[], labels: Record<string, string>): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+
+  for (const segment of segments) {
+    const label = segment.speaker ? labels[segment.speaker] ?? segment.speaker : '';
+    const current = turns[turns.length - 1];
+    if (current && current.label === label) {
+      current.segments.push(segment);
+      current.end = segment.end;
+    } else {
+      turns.push({ speaker: segment.speaker ?? '', label, start: segment.start, end: segment.end, segments: [segment] });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * The transcript with one "Name: words" paragraph per turn, or the plain text when nobody was identified
+ */
+export function formatSpeakerTranscript(result: SpeakerSource): string {
+  if (!hasSpeakers(result.segments)) return result.text;
+
+  return groupSpeakerTurns(result.segments ?? [], getSpeakerLabels(result))
+    .map(turn => {
+      const text = turn.segments.map(segment => segment.text.trim()).filter(Boolean).join(' ');
+      return turn.label ? `${turn.label}: ${text}` : text;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Segments with their speaker in front of the text, so prompts built from single segments still say who spoke
+ */
+export function labelSegments(result: SpeakerSource): TranscriptionSegment[] | undefined {
+  if (!hasSpeakers(result.segments)) return result.segments;
+
+  const labels = getSpeakerLabels(result);
+  return result.segments?.map(segment =>
+    segment.speaker ? { ...segment, text: `${labels[segment.speaker]}: ${segment.text.trim()}` } : segment
+  );
+}
+
+/**
+ * Replaces "Speaker N" in generated text with the name given to that speaker since.
+ * Summaries keep the default labels as written, so renaming later still reaches them.
+ */
+export function applySpeakerNames(text: string, result: SpeakerSource): string {
+  const ids = getSpeakerIds(result.segments);
+  if (!result.speakers || ids.length === 0) return text;
+
+  return text.replace(/\bSpeaker (\d+)\b/g, (label, number: string) => {
+    const id = ids[Number(number) - 1];
+    return (id && result.speakers?.[id]?.trim()) || label;
+  });
+}
+
+/**
+ * The summary with speaker names applied in every language
+ */
+export function applySpeakerNamesToSummary(summary: SummaryData, result: SpeakerSource): SummaryData {
+  if (!result.speakers) return summary;
+
+  const name = (text: string) => applySpeakerNames(text, result);
+  const languages = Object.fromEntries(Object.entries(summary.languages).map(([code, localized]): [string, LocalizedSummary] => [code, {
+    ...localized,
+    title: localized.title && name(localized.title),
+    summary: name(localized.summary),
+    keyPoints: localized.keyPoints.map(name),
+    insights: localized.insights?.map(name),
+    // Several speakers named the same person are listed once
+    participants: localized.participants && [...new Set(localized.participants.map(name))],
+    timeline: localized.timeline && name(localized.timeline),
+    fields: localized.fields && Object.fromEntries(Object.entries(localized.fields).map(([key, value]) =>
+      [key, Array.isArray(value) ? value.map(name) : name(value)]
+    )),
+  }]));
+
+  return {
+    ...summary,
+    languages,
+    actionItems: summary.actionItems?.map(item => ({
+      ...item,
+      description: Object.fromEntries(Object.entries(item.description).map(([code, text]) => [code, name(text)])),
+      owner: item.owner && name(item.owner),
+    })),
+    sections: summary.sections?.map(section => ({
+      ...section,
+      title: name(section.title),
+      summary: name(section.summary),
+      keyPoints: section.keyPoints.map(name),
+      actionItems: section.actionItems?.map(name),
+    })),
+  };
+}
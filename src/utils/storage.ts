@@ -1,8 +1,8 @@
-import type { AppSettings, TranscriptionResult } from '../types';
+import type { AppSettings, StorageUsage, TranscriptionError, TranscriptionResult } from '../types';
+import { DATABASE_BLOCKED_ERROR, DB_STORES, requestToPromise, withStores } from './db';
 
 const STORAGE_KEYS = {
   SETTINGS: 'quicktranscriber_settings',
-  RESULTS: 'quicktranscriber_results',
 } as const;
 
 export const storage = {
@@ -33,41 +33,98 @@ export const storage = {
     }
   },
 
-  // Results management
-  saveResults: (results: TranscriptionResult[]): void => {
+  // Results management - one IndexedDB record per result
+  saveResult: async (result: TranscriptionResult): Promise<void> => {
     try {
-      localStorage.setItem(STORAGE_KEYS.RESULTS, JSON.stringify(results));
+      await withStores(DB_STORES.RESULTS, 'readwrite', (transaction) => {
+        transaction.objectStore(DB_STORES.RESULTS).put(result);
+      });
     } catch (error) {
-      console.error('Failed to save results:', error);
+      console.error('Failed to save result:', error);
+      // Unlike settings, a lost transcript is expensive - let the caller tell the user
+      const quotaExceeded = error instanceof DOMException && error.name === 'QuotaExceededError';
+      throw {
+        message: quotaExceeded
+          ? 'Browser storage is full, so this transcript was not saved. Delete some older recordings to free up space.'
+          : 'Failed to save transcript to browser storage.',
+        type: 'storage_error',
+      } as TranscriptionError;
     }
   },
 
-  getResults: (): TranscriptionResult[] => {
+  getResults: async (): Promise<TranscriptionResult[]> => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEYS.RESULTS);
-      if (!stored) return [];
-      
-      const parsed = JSON.parse(stored);
-      // Convert date strings back to Date objects
-      return parsed.map((result: any) => ({
-        ...result,
-        createdAt: new Date(result.createdAt),
-        summary: result.summary ? {
-          ...result.summary,
-          createdAt: new Date(result.summary.createdAt)
-        } : undefined
-      }));
+      const results = await withStores(DB_STORES.RESULTS, 'readonly', (transaction) =>
+        requestToPromise<TranscriptionResult[]>(
+          transaction.objectStore(DB_STORES.RESULTS).index('createdAt').getAll()
+        )
+      );
+      // Newest first
+      return results.reverse();
     } catch (error) {
       console.error('Failed to load results:', error);
+      // An empty library would look like everything was lost - say what's actually wrong
+      if (error === DATABASE_BLOCKED_ERROR) throw error;
       return [];
     }
   },
 
-  clearResults: (): void => {
+  deleteResult: async (id: string): Promise<void> => {
     try {
-      localStorage.removeItem(STORAGE_KEYS.RESULTS);
+      await withStores([DB_STORES.RESULTS, DB_STORES.AUDIO], 'readwrite', (transaction) => {
+        transaction.objectStore(DB_STORES.RESULTS).delete(id);
+        transaction.objectStore(DB_STORES.AUDIO).delete(id);
+      });
+    } catch (error) {
+      console.error('Failed to delete result:', error);
+    }
+  },
+
+  clearResults: async (): Promise<void> => {
+    try {
+      await withStores([DB_STORES.RESULTS, DB_STORES.AUDIO], 'readwrite', (transaction) => {
+        transaction.objectStore(DB_STORES.RESULTS).clear();
+        transaction.objectStore(DB_STORES.AUDIO).clear();
+      });
     } catch (error) {
       console.error('Failed to clear results:', error);
     }
   },
-}; 
\ No newline at end of file
+
+  // Recordings kept for playback, stored separately so listing results stays cheap
+  saveAudio: async (resultId: string, audio: Blob): Promise<boolean> => {
+    try {
+      await withStores(DB_STORES.AUDIO, 'readwrite', (transaction) => {
+        transaction.objectStore(DB_STORES.AUDIO).put(audio, resultId);
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to save audio:', error);
+      return false;
+    }
+  },
+
+  getAudio: async (resultId: string): Promise<Blob | null> => {
+    try {
+      const audio = await withStores(DB_STORES.AUDIO, 'readonly', (transaction) =>
+        requestToPromise<Blob | undefined>(transaction.objectStore(DB_STORES.AUDIO).get(resultId))
+      );
+      return audio ?? null;
+    } catch (error) {
+      console.error('Failed to load audio:', error);
+      return null;
+    }
+  },
+
+  // How much of the browser's storage quota this origin is using
+  getStorageUsage: async (): Promise<StorageUsage | null> => {
+    try {
+      if (!navigator.storage?.estimate) return null;
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return { usage, quota };
+    } catch (error) {
+      console.error('Failed to estimate storage usage:', error);
+      return null;
+    }
+  },
+};
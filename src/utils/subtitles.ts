@@ -0,0 +1,169 @@
+import type { TranscriptionSegment } from '../types';
+
+export interface SubtitleOptions {
+  maxLineLength?: number; // characters per line
+  maxLines?: number; // lines per cue
+  maxCueDuration?: number; // seconds
+  speakerLabels?: Record<string, string>; // names to attribute cues by, keyed by speaker id - see getSpeakerLabels
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string; // label of who is speaking, when known
+}
+
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<SubtitleOptions, 'speakerLabels'>> = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCueDuration: 6,
+};
+
+/**
+ * Greedily wraps words into lines of at most `maxLineLength` characters.
+ * A single word longer than the limit gets a line of its own.
+ */
+function wrapLines(words: string[], maxLineLength: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxLineLength) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Gives every word in a segment a start and end time.
+ * Uses word-level timestamps when available, otherwise spreads the segment's time by character count.
+ */
+function getTimedWords(segment: TranscriptionSegment): TimedWord[] {
+  if (segment.words && segment.words.length > 0) {
+    return segment.words
+      .map(word => ({ text: word.word.trim(), start: word.start, end: word.end }))
+      .filter(word => word.text.length > 0);
+  }
+
+  const words = segment.text.split(/\s+/).filter(Boolean);
+  const totalChars = words.reduce((sum, word) => sum + word.length, 0) || 1;
+  const duration = Math.max(0, segment.end - segment.start);
+
+  let cursor = segment.start;
+  return words.map(word => {
+    const start = cursor;
+    cursor += (word.length / totalChars) * duration;
+    return { text: word, start, end: cursor };
+  });
+}
+
+/**
+ * Splits transcript segments into subtitle cues that respect line length, line count and duration limits
+ */
+export function buildSubtitleCues(segments: TranscriptionSegment[], options: SubtitleOptions = {}): SubtitleCue[] {
+  const { maxLineLength, maxLines, maxCueDuration, speakerLabels } = { ...DEFAULT_OPTIONS, ...options };
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of segments) {
+    const words = getTimedWords(segment);
+    const speaker = segment.speaker ? speakerLabels?.[segment.speaker] : undefined;
+    let pending: TimedWord[] = [];
+
+    const flush = () => {
+      if (pending.length === 0) return;
+      cues.push({
+        start: pending[0].start,
+        end: Math.max(pending[pending.length - 1].end, pending[0].start + 0.5),
+        lines: wrapLines(pending.map(word => word.text), maxLineLength),
+        speaker,
+      });
+      pending = [];
+    };
+
+    for (const word of words) {
+      if (pending.length > 0) {
+        const candidate = [...pending, word];
+        const fitsLines = wrapLines(candidate.map(w => w.text), maxLineLength).length <= maxLines;
+        const fitsDuration = word.end - pending[0].start <= maxCueDuration;
+        if (!fitsLines || !fitsDuration) flush();
+      }
+      pending.push(word);
+    }
+
+    flush();
+  }
+
+  // Never let a cue run into the next one
+  for (let i = 0; i < cues.length - 1; i++) {
+    if (cues[i].end > cues[i + 1].start) {
+      cues[i].end = Math.max(cues[i].start, cues[i + 1].start);
+    }
+  }
+
+  return cues;
+}
+
+const formatCueTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+/**
+ * Formats transcript segments as SubRip (.srt) subtitles.
+ * SubRip has no speaker markup, so the name leads the first cue of each turn.
+ */
+export function formatAsSrt(segments: TranscriptionSegment[], options?: SubtitleOptions): string {
+  return buildSubtitleCues(segments, options)
+    .map((cue, index, cues) => {
+      const lines = cue.speaker && cue.speaker !== cues[index - 1]?.speaker
+        ? [`${cue.speaker}: ${cue.lines[0]}`, ...cue.lines.slice(1)]
+        : cue.lines;
+      return [
+        `${index + 1}`,
+        `${formatCueTimestamp(cue.start, ',')} --> ${formatCueTimestamp(cue.end, ',')}`,
+        ...lines,
+      ].join('\n');
+    })
+    .join('\n\n') + '\n';
+}
+
+// Cue text is markup in WebVTT: a bare & or < breaks it, and so does "-->", hence > too
+const escapeVttText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Formats transcript segments as WebVTT (.vtt) subtitles, marking speakers with voice spans
+ */
+export function formatAsVtt(segments: TranscriptionSegment[], options?: SubtitleOptions): string {
+  const cues = buildSubtitleCues(segments, options)
+    .map(cue => {
+      const lines = cue.lines.map(escapeVttText);
+      return [
+        `${formatCueTimestamp(cue.start, '.')} --> ${formatCueTimestamp(cue.end, '.')}`,
+        ...(cue.speaker ? [`<v ${cue.speaker.replace(/[<>&]/g, '')}>${lines[0]}`, ...lines.slice(1)] : lines),
+      ].join('\n');
+    });
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
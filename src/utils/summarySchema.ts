@@ -0,0 +1,421 @@
+import type { ActionItem, ChatCitation, ContentLabel, ContentType, JsonSchemaFormat, LocalizedSummary, SummaryData, SummarySection, SummaryTemplate } from '../types';
+import type { TranscriptPassage } from './transcriptPassages';
+
+/**
+ * An action item as the model writes it; the quote places it in the recording
+ */
+export interface ExtractedActionItem extends Pick<ActionItem, 'description' | 'owner' | 'dueDate'> {
+  quote?: string;
+}
+
+export type SummaryFields = Omit<SummaryData, 'createdAt' | 'actionItems'> & { actionItems: ExtractedActionItem[] };
+
+export interface SummaryValidationResult {
+  data?: SummaryFields;
+  errors: string[]; // one entry per problem, prefixed with the field name
+}
+
+const CONTENT_TYPES: ContentType[] = ['meeting', 'conversation', 'lecture', 'interview', 'song', 'script', 'other'];
+const PRIORITIES: NonNullable<SummaryData['priority']>[] = ['high', 'medium', 'low'];
+
+const stringList = { type: 'array', items: { type: 'string' } };
+
+const localizedSummarySchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['title', 'summary', 'keyPoints', 'insights', 'participants', 'timeline'],
+  properties: {
+    title: { type: 'string' },
+    summary: { type: 'string' },
+    keyPoints: stringList,
+    insights: stringList,
+    participants: stringList,
+    timeline: { type: 'string' },
+  },
+};
+
+/**
+ * A template's summary in one language: a title and overview, then one property per output section
+ */
+const createTemplateSummarySchema = (template: SummaryTemplate) => ({
+  type: 'object',
+  additionalProperties: false,
+  required: ['title', 'summary', ...template.sections.map(section => section.key)],
+  properties: {
+    title: { type: 'string' },
+    summary: { type: 'string' },
+    ...Object.fromEntries(template.sections.map(section => [section.key, {
+      ...(section.type === 'list' ? stringList : { type: 'string' }),
+      description: section.description ? `${section.name}: ${section.description}` : section.name,
+    }])),
+  },
+});
+
+/**
+ * Action items are shared by every language, with the description written in each
+ */
+const createActionItemsSchema = (languages: string[]) => ({
+  type: 'array',
+  items: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['description', 'owner', 'dueDate', 'quote'],
+    properties: {
+      description: {
+        type: 'object',
+        additionalProperties: false,
+        required: languages,
+        properties: Object.fromEntries(languages.map(code => [code, { type: 'string' }])),
+      },
+      owner: { type: 'string', description: 'Who is to do it, as named in the recording; empty if nobody was named' },
+      dueDate: { type: 'string', description: 'YYYY-MM-DD if the date can be worked out, otherwise as said; empty if none was given' },
+      quote: { type: 'string', description: 'A few words from the transcript where it came up, copied exactly' },
+    },
+  },
+});
+
+/**
+ * JSON schema for the summary response, with one object per requested language code.
+ * Strict mode requires every property, so fields that don't apply come back as empty strings or arrays.
+ */
+export const createSummaryResponseFormat = (languages: string[], template?: SummaryTemplate): JsonSchemaFormat => ({
+  name: template ? 'transcript_template_summary' : 'transcript_summary',
+  strict: true,
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['languages', 'priority', 'actionItems'],
+    properties: {
+      languages: {
+        type: 'object',
+        additionalProperties: false,
+        required: languages,
+        properties: Object.fromEntries(languages.map(code => [code, template ? createTemplateSummarySchema(template) : localizedSummarySchema])),
+      },
+      priority: { type: 'string', enum: PRIORITIES },
+      actionItems: createActionItemsSchema(languages),
+    },
+  },
+});
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+
+/**
+ * Parses a model response as JSON, tolerating the usual wrapping: code fences and prose around the object
+ */
+export function parseJsonContent(content: string): unknown {
+  const trimmed = content.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(trimmed)?.[1];
+    const start = (fenced ?? trimmed).indexOf('{');
+    const end = (fenced ?? trimmed).lastIndexOf('}');
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse((fenced ?? trimmed).slice(start, end + 1));
+  }
+}
+
+/**
+ * Typed field access on a parsed response that records a readable error for every bad field
+ */
+const createFieldReader = (raw: Record<string, unknown>, errors: string[], path = '') => {
+  const readString = (key: string, required = false): string | undefined => {
+    const field = path + key;
+    const fieldValue = raw[key];
+    if (fieldValue === undefined || fieldValue === null || fieldValue === '') {
+      if (required) errors.push(`${field}: required but missing or empty`);
+      return undefined;
+    }
+    if (typeof fieldValue !== 'string') {
+      errors.push(`${field}: expected a string, got ${describe(fieldValue)}`);
+      return undefined;
+    }
+    return fieldValue;
+  };
+
+  const readList = (key: string, required = false): string[] | undefined => {
+    const field = path + key;
+    const fieldValue = raw[key];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (required) errors.push(`${field}: required but missing`);
+      return undefined;
+    }
+    if (!Array.isArray(fieldValue)) {
+      errors.push(`${field}: expected an array of strings, got ${describe(fieldValue)}`);
+      return undefined;
+    }
+    const badIndex = fieldValue.findIndex(item => typeof item !== 'string');
+    if (badIndex !== -1) {
+      errors.push(`${field}[${badIndex}]: expected a string, got ${describe(fieldValue[badIndex])}`);
+      return undefined;
+    }
+    return fieldValue as string[];
+  };
+
+  const readEnum = <T extends string>(key: string, allowed: T[]): T | undefined => {
+    const fieldValue = readString(key);
+    if (fieldValue === undefined) return undefined;
+    if (!allowed.includes(fieldValue as T)) {
+      errors.push(`${path + key}: expected one of ${allowed.join(', ')}, got "${fieldValue}"`);
+      return undefined;
+    }
+    return fieldValue as T;
+  };
+
+  return { readString, readList, readEnum };
+};
+
+const asObject = (value: unknown, errors: string[], field = 'response'): Record<string, unknown> | null => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${field}: ${value === undefined ? 'required but missing' : `expected a JSON object, got ${describe(value)}`}`);
+    return null;
+  }
+  return value as Record<string, unknown>;
+};
+
+/**
+ * Reads the action items of a summary response. A response without any is fine; malformed ones are errors.
+ */
+function readActionItems(value: unknown, languages: string[], errors: string[]): ExtractedActionItem[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`actionItems: expected an array, got ${describe(value)}`);
+    return [];
+  }
+
+  return value.flatMap((rawItem: unknown, index): ExtractedActionItem[] => {
+    const item = asObject(rawItem, errors, `actionItems[${index}]`);
+    if (!item) return [];
+    const path = `actionItems[${index}].`;
+    const rawDescription = asObject(item.description, errors, `${path}description`);
+    if (!rawDescription) return [];
+
+    const { readString } = createFieldReader(rawDescription, errors, `${path}description.`);
+    const description = Object.fromEntries(languages.map(code => [code, readString(code, true) ?? '']));
+    const { readString: readItemString } = createFieldReader(item, errors, path);
+    return [{
+      description,
+      owner: readItemString('owner')?.trim() || undefined,
+      dueDate: readItemString('dueDate')?.trim() || undefined,
+      quote: readItemString('quote')?.trim() || undefined,
+    }];
+  });
+}
+
+/**
+ * Checks a parsed response against the summary schema and maps it onto SummaryData's fields.
+ * Every requested language must be present; missing optional fields are fine, but fields of the wrong type are
+ * reported rather than silently dropped. Languages that weren't asked for are ignored.
+ * With a template, its sections go into `fields` and the standard lists stay empty.
+ * The content type comes from classification, not from the summary response.
+ */
+export function validateSummary(
+  value: unknown,
+  contentType: ContentType,
+  languages: string[],
+  template?: SummaryTemplate
+): SummaryValidationResult {
+  const errors: string[] = [];
+  const raw = asObject(value, errors);
+  if (!raw) return { errors };
+  const { readEnum } = createFieldReader(raw, errors);
+  const rawLanguages = asObject(raw.languages, errors, 'languages');
+
+  const localized: Record<string, LocalizedSummary> = {};
+  for (const code of languages) {
+    if (!rawLanguages) break;
+    const rawLanguage = asObject(rawLanguages[code], errors, `languages.${code}`);
+    if (!rawLanguage) continue;
+    const { readString, readList } = createFieldReader(rawLanguage, errors, `languages.${code}.`);
+    if (template) {
+      localized[code] = {
+        title: readString('title'),
+        summary: readString('summary', true) ?? '',
+        keyPoints: [],
+        fields: Object.fromEntries(template.sections.map(section => [
+          section.key,
+          (section.type === 'list' ? readList(section.key) : readString(section.key)) ?? (section.type === 'list' ? [] : ''),
+        ])),
+      };
+      continue;
+    }
+    localized[code] = {
+      title: readString('title'),
+      summary: readString('summary', true) ?? '',
+      keyPoints: readList('keyPoints', true) ?? [],
+      insights: readList('insights'),
+      participants: readList('participants'),
+      timeline: readString('timeline'),
+    };
+  }
+
+  const data: SummaryFields = {
+    languages: localized,
+    contentType,
+    priority: readEnum('priority', PRIORITIES),
+    actionItems: readActionItems(raw.actionItems, languages, errors),
+  };
+
+  return errors.length > 0 ? { errors } : { data, errors };
+}
+
+/**
+ * Schema for classifying a transcript: every content type that applies, each with its own confidence
+ */
+export const CLASSIFICATION_RESPONSE_FORMAT: JsonSchemaFormat = {
+  name: 'content_classification',
+  strict: true,
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['labels'],
+    properties: {
+      labels: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['contentType', 'confidence'],
+          properties: {
+            contentType: { type: 'string', enum: CONTENT_TYPES },
+            confidence: { type: 'number', description: 'Probability from 0 to 1 that this type applies' },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Checks a classification and orders its labels, most likely first. Repeated types keep their highest confidence.
+ */
+export function validateClassification(value: unknown): { data?: ContentLabel[]; errors: string[] } {
+  const errors: string[] = [];
+  const raw = asObject(value, errors);
+  if (!raw) return { errors };
+  if (!Array.isArray(raw.labels)) {
+    errors.push(`labels: ${raw.labels === undefined ? 'required but missing' : `expected an array, got ${describe(raw.labels)}`}`);
+    return { errors };
+  }
+
+  const labels = new Map<ContentType, number>();
+  raw.labels.forEach((rawLabel: unknown, index) => {
+    const label = asObject(rawLabel, errors, `labels[${index}]`);
+    if (!label) return;
+    const contentType = createFieldReader(label, errors, `labels[${index}].`).readEnum('contentType', CONTENT_TYPES);
+    const { confidence } = label;
+    if (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+      errors.push(`labels[${index}].confidence: expected a number from 0 to 1, got ${typeof confidence === 'number' ? confidence : describe(confidence)}`);
+      return;
+    }
+    if (contentType) labels.set(contentType, Math.max(confidence, labels.get(contentType) ?? 0));
+  });
+  if (errors.length === 0 && labels.size === 0) errors.push('labels: expected at least one label');
+
+  const data = [...labels].map(([contentType, confidence]) => ({ contentType, confidence }))
+    .sort((a, b) => b.confidence - a.confidence);
+  return errors.length > 0 ? { errors } : { data, errors };
+}
+
+/**
+ * Schema for the notes written about one section of a long transcript
+ */
+export const SECTION_RESPONSE_FORMAT: JsonSchemaFormat = {
+  name: 'transcript_section_notes',
+  strict: true,
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['title', 'summary', 'keyPoints', 'actionItems'],
+    properties: {
+      title: { type: 'string' },
+      summary: { type: 'string' },
+      keyPoints: stringList,
+      actionItems: stringList,
+    },
+  },
+};
+
+export type SectionNotes = Pick<SummarySection, 'title' | 'summary' | 'keyPoints' | 'actionItems'>;
+
+export function validateSectionNotes(value: unknown): { data?: SectionNotes; errors: string[] } {
+  const errors: string[] = [];
+  const raw = asObject(value, errors);
+  if (!raw) return { errors };
+  const { readString, readList } = createFieldReader(raw, errors);
+
+  const data: SectionNotes = {
+    title: readString('title') ?? '',
+    summary: readString('summary', true) ?? '',
+    keyPoints: readList('keyPoints', true) ?? [],
+    actionItems: readList('actionItems'),
+  };
+
+  return errors.length > 0 ? { errors } : { data, errors };
+}
+
+/**
+ * Schema for an answer to a question about the transcript, citing the numbered passages it used
+ */
+export const CHAT_RESPONSE_FORMAT: JsonSchemaFormat = {
+  name: 'transcript_answer',
+  strict: true,
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['answer', 'citations'],
+    properties: {
+      answer: { type: 'string' },
+      citations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['passage', 'quote'],
+          properties: {
+            passage: { type: 'integer' },
+            quote: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+};
+
+export interface ChatAnswer {
+  answer: string;
+  citations: ChatCitation[];
+}
+
+/**
+ * Checks an answer and resolves its citations against the passages that were actually sent.
+ * A citation of a passage the model never saw is an error, so the repair pass can correct it.
+ */
+export function validateChatAnswer(value: unknown, passages: TranscriptPassage[]): { data?: ChatAnswer; errors: string[] } {
+  const errors: string[] = [];
+  const raw = asObject(value, errors);
+  if (!raw) return { errors };
+  const { readString } = createFieldReader(raw, errors);
+  const answer = readString('answer', true) ?? '';
+
+  const citations: ChatCitation[] = [];
+  if (raw.citations !== undefined && !Array.isArray(raw.citations)) {
+    errors.push(`citations: expected an array, got ${describe(raw.citations)}`);
+  }
+  const rawCitations: unknown[] = Array.isArray(raw.citations) ? raw.citations : [];
+  rawCitations.forEach((rawCitation, index) => {
+    const citation = asObject(rawCitation, errors, `citations[${index}]`);
+    if (!citation) return;
+    const passage = passages.find(candidate => candidate.id === citation.passage);
+    if (!passage) {
+      errors.push(`citations[${index}].passage: ${JSON.stringify(citation.passage)} is not one of the numbered passages provided`);
+      return;
+    }
+    const quote = createFieldReader(citation, errors, `citations[${index}].`).readString('quote');
+    citations.push({ passage: passage.id, quote: quote ?? passage.text, startTime: passage.startTime, endTime: passage.endTime });
+  });
+
+  return errors.length > 0 ? { errors } : { data: { answer, citations }, errors };
+}
@@ -0,0 +1,115 @@
+import type { ContentType, LocalizedSummary, SummaryData, SummaryRequest, SummaryTemplate, SummaryTemplateSection } from '../types';
+
+// Template choices besides a template id
+export const AUTO_TEMPLATE = 'auto'; // a template for the detected content type if there is one, else the standard summary
+export const STANDARD_TEMPLATE = 'standard';
+
+export const CONTENT_TYPE_OPTIONS: Array<{ value: ContentType; label: string }> = [
+  { value: 'meeting', label: 'Meeting' },
+  { value: 'conversation', label: 'Conversation' },
+  { value: 'lecture', label: 'Lecture' },
+  { value: 'interview', label: 'Interview' },
+  { value: 'song', label: 'Song' },
+  { value: 'script', label: 'Script' },
+  { value: 'other', label: 'Other' },
+];
+
+// Starting points offered in the template editor
+export const TEMPLATE_PRESETS: Array<Omit<SummaryTemplate, 'id'>> = [
+  {
+    name: 'Discovery call',
+    prompt: 'You are a sales engineer summarising a discovery call with a prospect. Capture what the prospect said about their situation, in their words where it matters, and be explicit about what is still unknown.',
+    sections: [
+      { key: 'painPoints', name: 'Pain Points', type: 'list', description: 'Problems the prospect described, with their impact' },
+      { key: 'budget', name: 'Budget', type: 'text', description: 'Budget, pricing expectations and who signs off - or that it was not discussed' },
+      { key: 'decisionProcess', name: 'Decision Process', type: 'text', description: 'Stakeholders, timeline and competing options' },
+      { key: 'nextSteps', name: 'Next Steps', type: 'list', description: 'Agreed follow-ups, with owner and date when given' },
+    ],
+    contentTypes: [],
+  },
+  {
+    name: 'Design review',
+    prompt: 'You are a staff engineer writing up a design review. Record what was decided and why, and keep disagreements and unresolved questions visible rather than smoothing them over.',
+    sections: [
+      { key: 'decisions', name: 'Decisions', type: 'list', description: 'Each decision made, with the reasoning given' },
+      { key: 'openQuestions', name: 'Open Questions', type: 'list', description: 'Questions raised but not answered, and who will follow up' },
+      { key: 'risks', name: 'Risks', type: 'list', description: 'Technical, schedule or operational risks mentioned or implied' },
+    ],
+    contentTypes: [],
+  },
+];
+
+// Every template response also has these, so they can't be section keys
+const RESERVED_KEYS = new Set(['title', 'summary']);
+
+/**
+ * A JSON property name for a section: its name in camelCase, unique within the template
+ */
+export function createSectionKey(name: string, taken: Set<string>): string {
+  const words = name.normalize('NFKD').replace(/[^A-Za-z0-9\s]/g, ' ').trim().split(/\s+/).filter(Boolean);
+  const base = words.length > 0 && !/^\d/.test(words[0])
+    ? words.map((word, index) => index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()).join('')
+    : 'section';
+
+  let key = base;
+  for (let n = 2; taken.has(key) || RESERVED_KEYS.has(key); n++) key = `${base}${n}`;
+  return key;
+}
+
+/**
+ * Gives every section a key derived from its current name
+ */
+export const withSectionKeys = (sections: SummaryTemplateSection[]): SummaryTemplateSection[] => {
+  const taken = new Set<string>();
+  return sections.map(section => {
+    const key = createSectionKey(section.name, taken);
+    taken.add(key);
+    return { ...section, key };
+  });
+};
+
+/**
+ * What stops a template from being saved, if anything
+ */
+export const getTemplateError = (template: SummaryTemplate): string | null => {
+  if (!template.name.trim()) return 'Give the template a name';
+  if (template.sections.length === 0) return 'Add at least one output section';
+  if (template.sections.some(section => !section.name.trim())) return 'Every section needs a name';
+  return null;
+};
+
+export const findTemplateForContentType = (templates: SummaryTemplate[], contentType: ContentType): SummaryTemplate | undefined =>
+  templates.find(template => template.contentTypes.includes(contentType));
+
+/**
+ * Turns a choice from a template picker into the template fields of a summary request
+ */
+export const resolveTemplateChoice = (
+  templates: SummaryTemplate[] = [],
+  choice: string = AUTO_TEMPLATE
+): Pick<SummaryRequest, 'template' | 'templates'> => {
+  if (choice === STANDARD_TEMPLATE) return {};
+  const template = templates.find(candidate => candidate.id === choice);
+  return template ? { template } : { templates };
+};
+
+/**
+ * The choice that writes a summary like the given one again: the same template if it still exists
+ */
+export const getTemplateChoice = (summary: SummaryData | undefined, templates: SummaryTemplate[] = []): string => {
+  if (!summary) return AUTO_TEMPLATE;
+  if (!summary.template) return STANDARD_TEMPLATE;
+  return templates.some(template => template.id === summary.template?.id) ? summary.template.id : AUTO_TEMPLATE;
+};
+
+/**
+ * A template summary's sections in template order, skipping the ones that came back empty
+ */
+export const getTemplateContent = (
+  summary: SummaryData,
+  localized: LocalizedSummary
+): Array<{ section: SummaryTemplateSection; value: string | string[] }> =>
+  (summary.template?.sections ?? []).flatMap(section => {
+    const value = localized.fields?.[section.key];
+    return value && value.length > 0 ? [{ section, value }] : [];
+  });
@@ -0,0 +1,87 @@
+import type { TranscriptionSegment } from '../types';
+import { estimateTokens, splitTranscript } from './transcriptSections';
+import { formatDuration } from './file';
+
+export interface TranscriptPassage {
+  id: number; // position in the transcript, what answers cite
+  text: string;
+  startTime?: number; // seconds, when built from timestamped segments
+  endTime?: number;
+}
+
+const PLAIN_PASSAGE_TOKENS = 120; // a few sentences, for transcripts without timestamps
+
+// Words too common to say anything about which passage a question is about
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'whom', 'why', 'how',
+  'did', 'does', 'about', 'that', 'this', 'with', 'from', 'they', 'them', 'their', 'there', 'have', 'has',
+  'had', 'you', 'your', 'said', 'say', 'says', 'into', 'any', 'all', 'can', 'could', 'would', 'should', 'been',
+  'not', 'but', 'our', 'out', 'its', 'also', 'then', 'than', 'some', 'more', 'tell', 'give', 'list',
+]);
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+/**
+ * Splits a transcript into numbered passages answers can point back to:
+ * one per timestamped segment, or runs of a few sentences for plain text.
+ */
+export function buildPassages(text: string, segments?: TranscriptionSegment[]): TranscriptPassage[] {
+  const timed = (segments ?? []).filter(segment => segment.text.trim());
+  if (timed.length > 0) {
+    return timed.map((segment, index) => ({
+      id: index,
+      text: segment.text.trim(),
+      startTime: segment.start,
+      endTime: segment.end,
+    }));
+  }
+
+  return splitTranscript(text, undefined, PLAIN_PASSAGE_TOKENS).map((section, index) => ({ id: index, text: section.text }));
+}
+
+/**
+ * Picks the passages most relevant to a query that fit in maxTokens, returned in transcript order.
+ * Short transcripts are returned whole. Otherwise passages are ranked by the query words they share,
+ * rarer words counting for more, and each match brings its neighbours along for context.
+ */
+export function selectPassages(passages: TranscriptPassage[], query: string, maxTokens: number): TranscriptPassage[] {
+  const cost = (passage: TranscriptPassage) => estimateTokens(formatPassage(passage)) + 1;
+  if (passages.reduce((sum, passage) => sum + cost(passage), 0) <= maxTokens) return passages;
+
+  const queryWords = new Set(tokenize(query));
+  const passageWords = passages.map(passage => new Set(tokenize(passage.text)));
+  const weights = new Map<string, number>();
+  for (const word of queryWords) {
+    const frequency = passageWords.filter(words => words.has(word)).length;
+    if (frequency > 0) weights.set(word, Math.log(1 + passages.length / frequency));
+  }
+
+  const scores = passageWords.map(words => [...weights].reduce((sum, [word, weight]) => sum + (words.has(word) ? weight : 0), 0));
+  // Neighbours share half a passage's score, so a matching line arrives with the lines around it
+  const ranked = passages
+    .map((passage, index) => ({
+      passage,
+      score: scores[index] + 0.5 * Math.max(scores[index - 1] ?? 0, scores[index + 1] ?? 0),
+    }))
+    .sort((a, b) => b.score - a.score || a.passage.id - b.passage.id);
+
+  const selected: TranscriptPassage[] = [];
+  let used = 0;
+  for (const { passage } of ranked) {
+    const tokens = cost(passage);
+    if (used + tokens > maxTokens) continue;
+    selected.push(passage);
+    used += tokens;
+  }
+
+  return selected.sort((a, b) => a.id - b.id);
+}
+
+/**
+ * One passage as the model sees it: its number, time range if known, then the text
+ */
+export const formatPassage = (passage: TranscriptPassage): string =>
+  passage.startTime !== undefined && passage.endTime !== undefined
+    ? `[${passage.id}] (${formatDuration(passage.startTime)} - ${formatDuration(passage.endTime)}) ${passage.text}`
+    : `[${passage.id}] ${passage.text}`;
@@ -0,0 +1,106 @@
+import type { SummaryProgress, TranscriptionSegment } from '../types';
+
+export interface TranscriptSection {
+  text: string;
+  startTime?: number; // seconds, when built from timestamped segments
+  endTime?: number;
+}
+
+interface TextUnit {
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Rough token count without a tokenizer: about four characters per token for Latin text,
+ * while other scripts (Hebrew, CJK, ...) tokenize much less efficiently.
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+  }
+  return Math.ceil(ascii / 4 + (text.length - ascii) / 1.5);
+}
+
+/**
+ * Cuts a unit that is too long on its own at word boundaries
+ */
+const splitOversizedUnit = (unit: TextUnit, maxTokens: number): TextUnit[] => {
+  const words = unit.text.split(/\s+/).filter(Boolean);
+  const pieces: TextUnit[] = [];
+  let current: string[] = [];
+
+  for (const word of words) {
+    if (current.length > 0 && estimateTokens([...current, word].join(' ')) > maxTokens) {
+      pieces.push({ text: current.join(' ') });
+      current = [];
+    }
+    current.push(word);
+  }
+  if (current.length > 0) pieces.push({ text: current.join(' ') });
+
+  // Only the outer pieces keep the unit's timestamps
+  if (pieces.length > 0) {
+    pieces[0].start = unit.start;
+    pieces[pieces.length - 1].end = unit.end;
+  }
+  return pieces;
+};
+
+/**
+ * Packs consecutive units into groups of at most maxTokens each
+ */
+function groupUnits(units: TextUnit[], maxTokens: number, separator = ' '): TranscriptSection[] {
+  const sections: TranscriptSection[] = [];
+  let current: TextUnit[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    sections.push({
+      text: current.map(unit => unit.text).join(separator),
+      startTime: current.find(unit => unit.start !== undefined)?.start,
+      endTime: [...current].reverse().find(unit => unit.end !== undefined)?.end,
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const unit of units.flatMap(unit => estimateTokens(unit.text) > maxTokens ? splitOversizedUnit(unit, maxTokens) : [unit])) {
+    const tokens = estimateTokens(unit.text) + 1;
+    if (currentTokens + tokens > maxTokens) flush();
+    current.push(unit);
+    currentTokens += tokens;
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Splits a transcript into sections of at most maxTokens, in order.
+ * Timestamped segments are kept whole so every section has a time range; plain text is split between sentences.
+ */
+export function splitTranscript(text: string, segments: TranscriptionSegment[] | undefined, maxTokens: number): TranscriptSection[] {
+  const timedUnits = (segments ?? []).filter(segment => segment.text.trim());
+  if (timedUnits.length > 0) {
+    return groupUnits(timedUnits.map(segment => ({ text: segment.text.trim(), start: segment.start, end: segment.end })), maxTokens);
+  }
+
+  const sentences = text.split(/(?<=[.!?。؟])\s+|\n+/).map(sentence => sentence.trim()).filter(Boolean);
+  return groupUnits(sentences.map(sentence => ({ text: sentence })), maxTokens);
+}
+
+/**
+ * Groups already-written notes (such as section summaries) under a token limit, keeping each note whole where possible
+ */
+export function groupNotes(notes: string[], maxTokens: number): string[] {
+  return groupUnits(notes.map(note => ({ text: note })), maxTokens, '\n\n').map(section => section.text);
+}
+
+export const describeSummaryProgress = (progress: SummaryProgress): string =>
+  progress.phase === 'sections'
+    ? `Summarising sections... ${progress.completedSections} of ${progress.totalSections} done`
+    : 'Combining section summaries...';
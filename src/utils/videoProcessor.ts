@@ -0,0 +1,113 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import type { TranscriptionError, VideoInfo } from '../types';
+import { mountFFmpegInput } from './audioProcessor';
+import { createFilePreview } from './file';
+
+export interface ExtractedVideo {
+  audio: File; // mono Opus copy of the audio track
+  video: VideoInfo;
+}
+
+const EXTRACTED_AUDIO_BITRATE = '32k'; // kept for playback too, so a little above the voice-only compression
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_OFFSET = 1; // seconds in - the very first frame is often black
+
+// FFmpeg prints e.g. "Duration: 00:12:34.56, start: ..." when it opens the input
+const DURATION_PATTERN = /Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/;
+
+/**
+ * Extracts the audio track from a video as mono Opus, along with its duration and a thumbnail frame.
+ * Works for containers the browser can't play (mkv, avi, ...) since everything goes through FFmpeg-wasm.
+ */
+export async function extractVideoAudio(
+  file: File,
+  signal?: AbortSignal,
+  onProgress?: (progress: number) => void
+): Promise<ExtractedVideo> {
+  console.log(`🎬 [VIDEO] Extracting audio from ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`);
+  const { FFmpeg: FFmpegClass } = await import('@ffmpeg/ffmpeg');
+
+  const ffmpeg = new FFmpegClass();
+  const terminateOnAbort = () => ffmpeg.terminate();
+  signal?.addEventListener('abort', terminateOnAbort, { once: true });
+
+  let duration: number | undefined;
+  ffmpeg.on('log', ({ message }) => {
+    const match = duration === undefined ? DURATION_PATTERN.exec(message) : null;
+    if (match) {
+      duration = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+    }
+  });
+  const reportProgress = ({ progress }: { progress: number }) => {
+    if (progress >= 0 && progress <= 1) onProgress?.(Math.round(progress * 100));
+  };
+  ffmpeg.on('progress', reportProgress);
+
+  try {
+    await ffmpeg.load();
+
+    // Screen recordings run to gigabytes, far more than the wasm heap holds
+    const inputFileName = await mountFFmpegInput(ffmpeg, file);
+    const outputFileName = 'audio.ogg';
+
+    const exitCode = await ffmpeg.exec([
+      '-i', inputFileName,
+      '-vn',                              // No video
+      '-map', '0:a:0',                    // First audio track only
+      '-map_metadata', '-1',              // Remove metadata
+      '-ac', '1',                         // Downmix to mono
+      '-c:a', 'libopus',
+      '-b:a', EXTRACTED_AUDIO_BITRATE,
+      outputFileName
+    ]);
+    ffmpeg.off('progress', reportProgress);
+
+    const data = exitCode === 0 ? await ffmpeg.readFile(outputFileName) : null;
+    if (!data || typeof data === 'string' || data.byteLength === 0) {
+      throw {
+        message: `${file.name} has no audio track that could be extracted`,
+        type: 'file_error',
+      } as TranscriptionError;
+    }
+
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    const audio = new File([data], `${baseName}.ogg`, { type: 'audio/ogg' });
+    const thumbnail = await captureThumbnail(ffmpeg, inputFileName, duration);
+
+    console.log(`✅ [VIDEO] Extracted audio: ${(file.size / 1024 / 1024).toFixed(2)} MB -> ${(audio.size / 1024 / 1024).toFixed(2)} MB` +
+      (duration !== undefined ? `, ${duration.toFixed(1)}s` : ''));
+    return { audio, video: { duration, thumbnail } };
+  } finally {
+    signal?.removeEventListener('abort', terminateOnAbort);
+    ffmpeg.terminate();
+  }
+}
+
+/**
+ * Grabs one scaled-down frame as a JPEG data URL. A missing thumbnail isn't worth failing the job over.
+ */
+async function captureThumbnail(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  duration?: number
+): Promise<string | undefined> {
+  try {
+    const offset = duration !== undefined ? Math.min(THUMBNAIL_OFFSET, duration / 2) : 0;
+    const exitCode = await ffmpeg.exec([
+      '-ss', offset.toString(),
+      '-i', inputFileName,
+      '-frames:v', '1',
+      '-vf', `scale=${THUMBNAIL_WIDTH}:-2`,
+      '-q:v', '5',
+      'thumbnail.jpg'
+    ]);
+    if (exitCode !== 0) return undefined;
+
+    const data = await ffmpeg.readFile('thumbnail.jpg');
+    if (typeof data === 'string' || data.byteLength === 0) return undefined;
+    return await createFilePreview(new File([data], 'thumbnail.jpg', { type: 'image/jpeg' }));
+  } catch (error) {
+    console.warn(`⚠️ [VIDEO] Could not capture a thumbnail:`, error);
+    return undefined;
+  }
+}
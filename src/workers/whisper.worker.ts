@@ -0,0 +1,119 @@
+import { pipeline, type AutomaticSpeechRecognitionPipeline, type ProgressInfo } from '@huggingface/transformers';
+
+export type WhisperWorkerRequest =
+  | { type: 'transcribe'; id: number; model: string; audio: Float32Array; language?: string }
+  | { type: 'cancel'; id: number };
+
+export type WhisperWorkerResponse =
+  | { type: 'start'; id: number }
+  | { type: 'model-progress'; id: number; loaded: number; total: number }
+  | { type: 'result'; id: number; text: string; chunks: Array<{ start: number; end: number; text: string }> }
+  | { type: 'error'; id: number; message: string };
+
+const SAMPLE_RATE = 16000;
+const WINDOW_LENGTH = 30; // seconds - Whisper's native input length
+const WINDOW_STRIDE = 5; // seconds of overlap between windows
+
+let loadedModel: string | null = null;
+let transcriber: Promise<AutomaticSpeechRecognitionPipeline> | null = null;
+let queue = Promise.resolve();
+const active = new Set<number>(); // queued or running
+const cancelled = new Set<number>();
+
+const post = (message: WhisperWorkerResponse) => self.postMessage(message);
+
+/**
+ * Loads the model once per worker. Files are cached by the browser, so only the very first load downloads anything.
+ * WebGPU is much faster where available; WASM works everywhere.
+ */
+const loadTranscriber = async (model: string, onProgress: (info: ProgressInfo) => void) => {
+  if ('gpu' in navigator) {
+    try {
+      return await pipeline('automatic-speech-recognition', model, {
+        device: 'webgpu',
+        dtype: { encoder_model: 'fp32', decoder_model_merged: 'q4' },
+        progress_callback: onProgress,
+      });
+    } catch (error) {
+      console.warn(`⚠️ [WHISPER] WebGPU unavailable, falling back to WASM:`, error);
+    }
+  }
+  return pipeline('automatic-speech-recognition', model, { device: 'wasm', dtype: 'q8', progress_callback: onProgress });
+};
+
+const getTranscriber = (model: string, id: number) => {
+  if (transcriber && loadedModel === model) return transcriber;
+
+  // Model files download in parallel; progress is reported for all of them together
+  const files = new Map<string, { loaded: number; total: number }>();
+  const onProgress = (info: ProgressInfo) => {
+    if (info.status !== 'progress') return;
+    files.set(info.file, { loaded: info.loaded, total: info.total });
+    const totals = [...files.values()].reduce(
+      (sum, file) => ({ loaded: sum.loaded + file.loaded, total: sum.total + file.total }),
+      { loaded: 0, total: 0 }
+    );
+    post({ type: 'model-progress', id, ...totals });
+  };
+
+  const previous = transcriber;
+  loadedModel = model;
+  const loading = (async () => {
+    await (await previous?.catch(() => null))?.dispose();
+    console.log(`📦 [WHISPER] Loading ${model}...`);
+    return loadTranscriber(model, onProgress);
+  })();
+  transcriber = loading;
+  // A failed load is retried by the next request
+  loading.catch(() => {
+    if (transcriber !== loading) return;
+    loadedModel = null;
+    transcriber = null;
+  });
+  return loading;
+};
+
+const transcribe = async (request: Extract<WhisperWorkerRequest, { type: 'transcribe' }>) => {
+  try {
+    if (cancelled.has(request.id)) return;
+    post({ type: 'start', id: request.id });
+
+    const run = await getTranscriber(request.model, request.id);
+    const output = await run(request.audio, {
+      return_timestamps: true,
+      chunk_length_s: WINDOW_LENGTH,
+      stride_length_s: WINDOW_STRIDE,
+      language: request.language,
+      task: 'transcribe',
+    });
+    const result = Array.isArray(output) ? output[0] : output;
+
+    post({
+      type: 'result',
+      id: request.id,
+      text: result.text,
+      chunks: (result.chunks ?? []).map(chunk => ({
+        start: chunk.timestamp[0],
+        end: chunk.timestamp[1] ?? (request.audio.length / SAMPLE_RATE),
+        text: chunk.text,
+      })),
+    });
+  } catch (error) {
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    active.delete(request.id);
+    cancelled.delete(request.id);
+  }
+};
+
+// Requests run one at a time - the model can't serve two inferences at once
+self.addEventListener('message', (event: MessageEvent<WhisperWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    // Ids that aren't queued or running would never be cleared
+    if (active.has(request.id)) cancelled.add(request.id);
+    return;
+  }
+  active.add(request.id);
+  queue = queue.then(() => transcribe(request));
+});
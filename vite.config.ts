@@ -17,6 +17,10 @@ export default defineConfig({
       'Cross-Origin-Opener-Policy': 'same-origin',
     },
   },
+  // The Whisper worker imports transformers.js, which needs code splitting
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
     exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util'],
   },